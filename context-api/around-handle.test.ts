@@ -0,0 +1,262 @@
+import { describe, it } from "@effectionx/vitest";
+import { createApi } from "@effectionx/context-api";
+import { type Operation, scoped, spawn, withResolvers } from "effection";
+import { expect } from "expect";
+
+function createMath() {
+  return createApi("math", {
+    *add(left: number, right: number): Operation<number> {
+      return left + right;
+    },
+    *multiply(left: number, right: number): Operation<number> {
+      return left * right;
+    },
+  });
+}
+
+describe("around handle", () => {
+  it("removes the middleware it installed", function* () {
+    const math = createMath();
+
+    const handle = yield* math.around({
+      *add(args, next) {
+        return 10 + (yield* next(...args));
+      },
+    });
+
+    expect(yield* math.operations.add(1, 2)).toEqual(13);
+
+    handle.remove();
+
+    expect(yield* math.operations.add(1, 2)).toEqual(3);
+  });
+
+  it("removes exactly one layer and leaves the others in place", function* () {
+    const math = createMath();
+    const log: string[] = [];
+
+    yield* math.around(
+      {
+        *add(args, next) {
+          log.push("first");
+          return yield* next(...args);
+        },
+      },
+      { label: "first" },
+    );
+    const second = yield* math.around(
+      {
+        *add(args, next) {
+          log.push("second");
+          return yield* next(...args);
+        },
+      },
+      { label: "second" },
+    );
+    yield* math.around(
+      {
+        *add(args, next) {
+          log.push("min");
+          return yield* next(...args);
+        },
+      },
+      { at: "min", label: "min" },
+    );
+
+    second.remove();
+
+    yield* math.operations.add(1, 1);
+    expect(log).toEqual(["first", "min"]);
+    expect((yield* math.inspect("add")).map((l) => l.label)).toEqual([
+      "first",
+      "min",
+    ]);
+  });
+
+  it("removes min middleware", function* () {
+    const math = createMath();
+
+    const handle = yield* math.around(
+      {
+        *add([left, right]) {
+          return left - right;
+        },
+      },
+      { at: "min" },
+    );
+
+    expect(yield* math.operations.add(5, 3)).toEqual(2);
+    handle.remove();
+    expect(yield* math.operations.add(5, 3)).toEqual(8);
+  });
+
+  it("removes middleware for every field of the layer", function* () {
+    const math = createMath();
+
+    const handle = yield* math.around({
+      *add(args, next) {
+        return -(yield* next(...args));
+      },
+      *multiply(args, next) {
+        return -(yield* next(...args));
+      },
+    });
+
+    handle.remove();
+
+    expect(yield* math.operations.add(2, 3)).toEqual(5);
+    expect(yield* math.operations.multiply(2, 3)).toEqual(6);
+  });
+
+  it("removes parent middleware from the view of child scopes", function* () {
+    const math = createMath();
+
+    const handle = yield* math.around({
+      *add(args, next) {
+        return 10 + (yield* next(...args));
+      },
+    });
+
+    const result = yield* scoped(function* () {
+      yield* math.around({
+        *add(args, next) {
+          return 100 + (yield* next(...args));
+        },
+      });
+      handle.remove();
+      return yield* math.operations.add(1, 2);
+    });
+
+    expect(result).toEqual(103);
+  });
+
+  it("does not affect calls that are already in progress", function* () {
+    const math = createMath();
+    const entered = withResolvers<void>();
+    const proceed = withResolvers<void>();
+
+    const handle = yield* math.around({
+      *add(args, next) {
+        entered.resolve();
+        yield* proceed.operation;
+        return 10 + (yield* next(...args));
+      },
+    });
+
+    const task = yield* spawn(() => math.operations.add(1, 2));
+
+    yield* entered.operation;
+    handle.remove();
+    proceed.resolve();
+
+    expect(yield* task).toEqual(13);
+    expect(yield* math.operations.add(1, 2)).toEqual(3);
+  });
+
+  it("can be removed more than once", function* () {
+    const math = createMath();
+
+    const handle = yield* math.around({
+      *add(args, next) {
+        return 10 + (yield* next(...args));
+      },
+    });
+
+    handle.remove();
+    handle.remove();
+
+    expect(yield* math.operations.add(1, 2)).toEqual(3);
+  });
+
+  it("returns a handle when no middleware is given", function* () {
+    const math = createMath();
+
+    const handle = yield* math.around({});
+    handle.remove();
+
+    expect(yield* math.operations.add(1, 2)).toEqual(3);
+  });
+
+  describe("once", () => {
+    it("removes the middleware after the first invocation", function* () {
+      const math = createMath();
+      let calls = 0;
+
+      yield* math.around(
+        {
+          *add(args, next) {
+            calls++;
+            return 10 + (yield* next(...args));
+          },
+        },
+        { once: true },
+      );
+
+      expect(yield* math.operations.add(1, 2)).toEqual(13);
+      expect(yield* math.operations.add(1, 2)).toEqual(3);
+      expect(calls).toEqual(1);
+      expect(yield* math.inspect("add")).toEqual([]);
+    });
+
+    it("is spent by the first call to any of its fields", function* () {
+      const math = createMath();
+
+      yield* math.around(
+        {
+          *add(args, next) {
+            return 10 + (yield* next(...args));
+          },
+          *multiply(args, next) {
+            return 10 + (yield* next(...args));
+          },
+        },
+        { once: true },
+      );
+
+      expect(yield* math.operations.multiply(2, 3)).toEqual(16);
+      expect(yield* math.operations.add(2, 3)).toEqual(5);
+    });
+
+    it("only fires once for concurrent calls", function* () {
+      const math = createMath();
+      const release = withResolvers<void>();
+      let calls = 0;
+
+      yield* math.around(
+        {
+          *add(args, next) {
+            calls++;
+            yield* release.operation;
+            return 10 + (yield* next(...args));
+          },
+        },
+        { once: true },
+      );
+
+      const first = yield* spawn(() => math.operations.add(1, 1));
+      const second = yield* spawn(() => math.operations.add(2, 2));
+
+      release.resolve();
+
+      expect([yield* first, yield* second]).toEqual([12, 4]);
+      expect(calls).toEqual(1);
+    });
+
+    it("can be removed before it fires", function* () {
+      const math = createMath();
+
+      const handle = yield* math.around(
+        {
+          *add(args, next) {
+            return 10 + (yield* next(...args));
+          },
+        },
+        { once: true },
+      );
+
+      handle.remove();
+
+      expect(yield* math.operations.add(1, 2)).toEqual(3);
+    });
+  });
+});
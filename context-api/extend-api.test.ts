@@ -0,0 +1,161 @@
+import { describe, it } from "@effectionx/vitest";
+import { createApi, extendApi } from "@effectionx/context-api";
+import type { Operation } from "effection";
+import { expect } from "expect";
+
+function createFiles() {
+  return createApi(
+    "extend.files",
+    {
+      *read(path: string): Operation<string> {
+        return `contents of ${path}`;
+      },
+      separator: "/",
+      join: (...parts: string[]) => parts.join("/"),
+    },
+    { layers: { cache: 100 } },
+  );
+}
+
+describe("extendApi", () => {
+  it("contains the fields of the base and the additions", function* () {
+    const files = createFiles();
+    const config = extendApi(files, "extend.config", {
+      *readConfig(name: string): Operation<string> {
+        return yield* files.operations.read(`${name}.json`);
+      },
+    });
+
+    const { read, separator, join, readConfig } = config.operations;
+
+    expect(yield* read("a.txt")).toEqual("contents of a.txt");
+    expect(yield* separator).toEqual("/");
+    expect(yield* join("a", "b")).toEqual("a/b");
+    expect(yield* readConfig("app")).toEqual("contents of app.json");
+  });
+
+  it("applies middleware installed on the base to inherited fields", function* () {
+    const files = createFiles();
+    const config = extendApi(files, "extend.config", {});
+
+    yield* files.around({
+      *read([path], _next) {
+        return `mocked ${path}`;
+      },
+    });
+
+    expect(yield* config.operations.read("a.txt")).toEqual("mocked a.txt");
+  });
+
+  it("wraps middleware installed on the derived api outside the base middleware", function* () {
+    const files = createFiles();
+    const config = extendApi(files, "extend.config", {});
+    const log: string[] = [];
+
+    yield* config.around({
+      *read(args, next) {
+        log.push("derived");
+        return yield* next(...args);
+      },
+    });
+    yield* files.around({
+      *read(args, next) {
+        log.push("base");
+        return yield* next(...args);
+      },
+    });
+
+    yield* config.operations.read("a.txt");
+    expect(log).toEqual(["derived", "base"]);
+  });
+
+  it("does not apply middleware installed on the derived api to the base", function* () {
+    const files = createFiles();
+    const config = extendApi(files, "extend.config", {});
+
+    yield* config.around({
+      *read([path], _next) {
+        return `derived ${path}`;
+      },
+    });
+
+    expect(yield* config.operations.read("a.txt")).toEqual("derived a.txt");
+    expect(yield* files.operations.read("a.txt")).toEqual("contents of a.txt");
+  });
+
+  it("supports middleware on inherited values and sync functions", function* () {
+    const files = createFiles();
+    const config = extendApi(files, "extend.config", {});
+
+    yield* config.around({
+      *separator(args, next) {
+        return `${yield* next(...args)}/`;
+      },
+      *join(args, next) {
+        return (yield* next(...args)).toUpperCase();
+      },
+    });
+
+    expect(yield* config.operations.separator).toEqual("//");
+    expect(yield* config.operations.join("a", "b")).toEqual("A/B");
+  });
+
+  it("supports middleware on the added fields", function* () {
+    const files = createFiles();
+    const config = extendApi(files, "extend.config", {
+      *readConfig(name: string): Operation<string> {
+        return yield* files.operations.read(`${name}.json`);
+      },
+    });
+
+    yield* config.around({
+      *readConfig([name], next) {
+        return yield* next(`${name}.local`);
+      },
+    });
+
+    expect(yield* config.operations.readConfig("app")).toEqual(
+      "contents of app.local.json",
+    );
+  });
+
+  it("shares the named layers of the base", function* () {
+    const files = createFiles();
+    const config = extendApi(files, "extend.config", {});
+    const log: string[] = [];
+
+    yield* config.around(
+      {
+        *read(args, next) {
+          log.push("cache");
+          return yield* next(...args);
+        },
+      },
+      { at: "cache" },
+    );
+    yield* config.around(
+      {
+        *read(args, next) {
+          log.push("max");
+          return yield* next(...args);
+        },
+      },
+      { at: "max" },
+    );
+
+    yield* config.operations.read("a.txt");
+    expect(log).toEqual(["max", "cache"]);
+  });
+
+  it("refuses to redefine a field of the base", function* () {
+    const files = createFiles();
+
+    expect(() =>
+      extendApi(files, "extend.config", {
+        *read(): Operation<string> {
+          return "shadowed";
+        },
+      }),
+    ).toThrow(/already defined/);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it } from "@effectionx/vitest";
+import { createApi } from "@effectionx/context-api";
+import { type Operation, scoped, spawn } from "effection";
+import { expect } from "expect";
+
+describe("inspect", () => {
+  it("reports no layers when no middleware is installed", function* () {
+    const api = createApi("inspect.empty", {
+      *value(): Operation<string> {
+        return "core";
+      },
+    });
+
+    expect(yield* api.inspect("value")).toEqual([]);
+  });
+
+  it("lists layers in execution order with their labels", function* () {
+    const api = createApi("inspect.order", {
+      *value(): Operation<string> {
+        return "core";
+      },
+    });
+
+    yield* api.around(
+      {
+        *value(args, next) {
+          return yield* next(...args);
+        },
+      },
+      { label: "max-1" },
+    );
+    yield* api.around(
+      {
+        *value(args, next) {
+          return yield* next(...args);
+        },
+      },
+      { at: "min", label: "min-1" },
+    );
+    yield* api.around(
+      {
+        *value(args, next) {
+          return yield* next(...args);
+        },
+      },
+      { label: "max-2" },
+    );
+    yield* api.around(
+      {
+        *value(args, next) {
+          return yield* next(...args);
+        },
+      },
+      { at: "min", label: "min-2" },
+    );
+
+    const layers = yield* api.inspect("value");
+    expect(layers.map(({ at, label }) => ({ at, label }))).toEqual([
+      { at: "max", label: "max-1" },
+      { at: "max", label: "max-2" },
+      { at: "min", label: "min-2" },
+      { at: "min", label: "min-1" },
+    ]);
+  });
+
+  it("reports the scope depth each layer was installed at", function* () {
+    const api = createApi("inspect.depth", {
+      *value(): Operation<string> {
+        return "core";
+      },
+    });
+
+    yield* api.around(
+      {
+        *value(args, next) {
+          return yield* next(...args);
+        },
+      },
+      { label: "parent" },
+    );
+
+    const layers = yield* scoped(function* () {
+      yield* api.around(
+        {
+          *value(args, next) {
+            return yield* next(...args);
+          },
+        },
+        { at: "min", label: "child" },
+      );
+      return yield* api.inspect("value");
+    });
+
+    expect(layers.map(({ depth, label }) => ({ depth, label }))).toEqual([
+      { depth: 1, label: "parent" },
+      { depth: 0, label: "child" },
+    ]);
+  });
+
+  it("only reports middleware for the inspected field", function* () {
+    const api = createApi("inspect.field", {
+      *one(): Operation<number> {
+        return 1;
+      },
+      *two(): Operation<number> {
+        return 2;
+      },
+    });
+
+    yield* api.around(
+      {
+        *one(args, next) {
+          return yield* next(...args);
+        },
+      },
+      { label: "one-only" },
+    );
+    yield* api.around(
+      {
+        *one(args, next) {
+          return yield* next(...args);
+        },
+        *two(args, next) {
+          return yield* next(...args);
+        },
+      },
+      { label: "both" },
+    );
+
+    expect((yield* api.inspect("one")).map((l) => l.label)).toEqual([
+      "one-only",
+      "both",
+    ]);
+    expect((yield* api.inspect("two")).map((l) => l.label)).toEqual(["both"]);
+  });
+
+  it("returns the installed middleware functions", function* () {
+    const api = createApi("inspect.functions", {
+      *add(left: number, right: number): Operation<number> {
+        return left + right;
+      },
+    });
+
+    function* double(
+      [left, right]: [number, number],
+      next: (left: number, right: number) => Operation<number>,
+    ): Operation<number> {
+      return (yield* next(left, right)) * 2;
+    }
+
+    yield* api.around({ add: double });
+
+    const [layer] = yield* api.inspect("add");
+    expect(layer.middleware).toBe(double);
+    expect(layer.label).toBeUndefined();
+  });
+
+  it("sees middleware inherited by a spawned child", function* () {
+    const api = createApi("inspect.spawn", {
+      *value(): Operation<string> {
+        return "core";
+      },
+    });
+
+    yield* api.around(
+      {
+        *value(args, next) {
+          return yield* next(...args);
+        },
+      },
+      { label: "parent" },
+    );
+
+    const task = yield* spawn(function* () {
+      return yield* api.inspect("value");
+    });
+
+    const layers = yield* task;
+    expect(layers.map((l) => l.label)).toEqual(["parent"]);
+    expect(layers[0].depth).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it } from "@effectionx/vitest";
+import { createApi } from "@effectionx/context-api";
+import { type Operation, scoped } from "effection";
+import { expect } from "expect";
+
+function createTransport(log: string[]) {
+  return createApi(
+    "layers.transport",
+    {
+      *send(message: string): Operation<string> {
+        log.push("core");
+        return `sent:${message}`;
+      },
+    },
+    { layers: { auth: 300, retry: 200, transport: 100 } },
+  );
+}
+
+function tracer(log: string[], name: string) {
+  return {
+    *send(
+      [message]: [string],
+      next: (message: string) => Operation<string>,
+    ): Operation<string> {
+      log.push(name);
+      return yield* next(message);
+    },
+  };
+}
+
+describe("layers", () => {
+  it("orders named layers by priority regardless of installation order", function* () {
+    const log: string[] = [];
+    const api = createTransport(log);
+
+    yield* api.around(tracer(log, "transport"), { at: "transport" });
+    yield* api.around(tracer(log, "auth"), { at: "auth" });
+    yield* api.around(tracer(log, "retry"), { at: "retry" });
+
+    yield* api.operations.send("hello");
+    expect(log).toEqual(["auth", "retry", "transport", "core"]);
+  });
+
+  it("keeps retries outside transport mocks installed in a parent scope", function* () {
+    const log: string[] = [];
+    const api = createTransport(log);
+
+    yield* api.around(tracer(log, "retry"), { at: "retry" });
+
+    yield* scoped(function* () {
+      yield* api.around(
+        {
+          *send([message]) {
+            log.push("mock");
+            return `mocked:${message}`;
+          },
+        },
+        { at: "transport" },
+      );
+      expect(yield* api.operations.send("hello")).toEqual("mocked:hello");
+    });
+
+    expect(log).toEqual(["retry", "mock"]);
+
+    log.length = 0;
+    yield* scoped(function* () {
+      yield* api.around(tracer(log, "mock"), { at: "transport" });
+      yield* scoped(function* () {
+        yield* api.around(tracer(log, "retry"), { at: "retry" });
+        yield* api.operations.send("hello");
+      });
+    });
+
+    expect(log).toEqual(["retry", "retry", "mock", "core"]);
+  });
+
+  it("accepts anonymous priorities", function* () {
+    const log: string[] = [];
+    const api = createTransport(log);
+
+    yield* api.around(tracer(log, "150"), { at: { priority: 150 } });
+    yield* api.around(tracer(log, "250"), { at: { priority: 250 } });
+    yield* api.around(tracer(log, "retry"), { at: "retry" });
+    yield* api.around(tracer(log, "-5"), { at: { priority: -5 } });
+
+    yield* api.operations.send("hello");
+    expect(log).toEqual(["250", "retry", "150", "-5", "core"]);
+  });
+
+  it("keeps max outermost and min innermost", function* () {
+    const log: string[] = [];
+    const api = createTransport(log);
+
+    yield* api.around(tracer(log, "min"), { at: "min" });
+    yield* api.around(tracer(log, "auth"), { at: "auth" });
+    yield* api.around(tracer(log, "max"));
+    yield* api.around(tracer(log, "low"), { at: { priority: -1000 } });
+
+    yield* api.operations.send("hello");
+    expect(log).toEqual(["max", "auth", "low", "min", "core"]);
+  });
+
+  it("orders equal priorities from ancestor to descendant, then by installation", function* () {
+    const log: string[] = [];
+    const api = createTransport(log);
+
+    yield* api.around(tracer(log, "parent-1"), { at: "retry" });
+
+    yield* scoped(function* () {
+      yield* api.around(tracer(log, "child-1"), { at: "retry" });
+      yield* api.around(tracer(log, "child-2"), { at: { priority: 200 } });
+      yield* api.operations.send("hello");
+    });
+
+    expect(log).toEqual(["parent-1", "child-1", "child-2", "core"]);
+  });
+
+  it("reports placement and priority when inspected", function* () {
+    const log: string[] = [];
+    const api = createTransport(log);
+
+    yield* api.around(tracer(log, "min"), { at: "min" });
+    yield* api.around(tracer(log, "retry"), { at: "retry" });
+    yield* api.around(tracer(log, "anonymous"), { at: { priority: 1 } });
+    yield* api.around(tracer(log, "max"));
+
+    const layers = yield* api.inspect("send");
+    expect(layers.map(({ at, priority }) => ({ at, priority }))).toEqual([
+      { at: "max", priority: Number.POSITIVE_INFINITY },
+      { at: "retry", priority: 200 },
+      { at: { priority: 1 }, priority: 1 },
+      { at: "min", priority: Number.NEGATIVE_INFINITY },
+    ]);
+  });
+
+  it("rejects unknown layer names", function* () {
+    const log: string[] = [];
+    const api = createTransport(log);
+
+    let error: unknown;
+    try {
+      yield* api.around(tracer(log, "cache"), {
+        at: "cache" as "retry",
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toMatch(/unknown layer "cache"/);
+  });
+
+  it("rejects priorities that are not finite numbers", function* () {
+    const log: string[] = [];
+    const api = createTransport(log);
+
+    let error: unknown;
+    try {
+      yield* api.around(tracer(log, "nan"), {
+        at: { priority: Number.NaN },
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(Error);
+  });
+
+  it("does not allow min or max to be registered as layer names", function* () {
+    expect(() =>
+      createApi("layers.reserved", { *value() {} }, { layers: { max: 10 } }),
+    ).toThrow(/reserved/);
+  });
+});
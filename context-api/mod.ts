@@ -26,12 +26,108 @@ export type Around<A> = {
   [K in keyof A]: PropertyMiddleware<A, K>;
 };
 
-export interface Api<A> {
+/**
+ * Where {@link Api.around} places a middleware in the stack.
+ *
+ * - `"max"` — outermost, closest to the caller
+ * - `"min"` — innermost, closest to the core handler
+ * - `{ priority: number }` — between the two; higher priorities wrap lower ones
+ * - a layer name registered with {@link createApi}, standing for its priority
+ */
+export type Placement<L extends string = never> =
+  | "min"
+  | "max"
+  | L
+  | { priority: number };
+
+/**
+ * Options controlling how {@link Api.around} installs middleware.
+ */
+export interface AroundOptions<L extends string = never> {
+  /**
+   * Where to install the middleware. Defaults to `"max"`.
+   */
+  at?: Placement<L>;
+  /**
+   * A human readable name for this layer. It has no effect on execution
+   * and is reported by {@link Api.inspect} to identify where a middleware
+   * came from.
+   */
+  label?: string;
+  /**
+   * Remove the middleware automatically after the first call that passes
+   * through it. Calls that were already in flight when it fired skip it.
+   */
+  once?: boolean;
+}
+
+/**
+ * Options for {@link createApi}.
+ */
+export interface ApiOptions<L extends string = never> {
+  /**
+   * Named layers that middleware can be installed at, mapped to their
+   * priority. Libraries that wrap the same Api can agree on names such as
+   * `"retry"` or `"transport"` instead of relying on installation order.
+   */
+  layers?: Record<L, number>;
+}
+
+/**
+ * A handle to middleware installed by {@link Api.around}.
+ */
+export interface MiddlewareHandle {
+  /**
+   * Uninstall exactly this layer from the scope it was installed in. Calls
+   * already running through the layer are unaffected. Calling it more than
+   * once has no further effect.
+   */
+  remove(): void;
+}
+
+/**
+ * A single middleware layer as reported by {@link Api.inspect}.
+ */
+export interface MiddlewareLayer<
+  A,
+  K extends keyof A,
+  L extends string = never,
+> {
+  /** The middleware installed for the inspected field. */
+  middleware: PropertyMiddleware<A, K>;
+  /** The placement the middleware was installed at. */
+  at: Placement<L>;
+  /**
+   * The numeric priority `at` resolves to. `"max"` is `Infinity` and
+   * `"min"` is `-Infinity`.
+   */
+  priority: number;
+  /**
+   * How many scopes above the inspecting scope this layer was installed.
+   * `0` is the current scope, `1` its parent, and so on.
+   */
+  depth: number;
+  /** The label passed to {@link Api.around}, if any. */
+  label?: string;
+}
+
+export interface Api<A, L extends string = never> {
+  /** The name the api was created with. */
+  name: string;
   operations: Operations<A>;
   around: (
     around: Partial<Around<A>>,
-    options?: { at: "min" | "max" },
-  ) => Operation<void>;
+    options?: AroundOptions<L>,
+  ) => Operation<MiddlewareHandle>;
+  /**
+   * List the middleware that would surround a call to `field` from the
+   * current scope, in execution order: the first layer is outermost
+   * (closest to the caller) and the last is innermost (closest to the
+   * core handler).
+   */
+  inspect: <K extends keyof A>(
+    field: K,
+  ) => Operation<MiddlewareLayer<A, K, L>[]>;
 }
 
 /**
@@ -55,21 +151,50 @@ export type Operations<A> = {
       : Operation<A[K]>;
 };
 
+type Layer<A> = {
+  around: Partial<Around<A>>;
+  at: Placement<string>;
+  priority: number;
+  label?: string;
+};
+
 type ScopeMiddleware<A> = {
-  max: Partial<Around<A>>[];
-  min: Partial<Around<A>>[];
+  layers: Layer<A>[];
 };
 
-type MiddlewareStack = {
-  max: Middleware<any[], any>[];
-  min: Middleware<any[], any>[];
+type CollectedLayer = {
+  middleware: Middleware<any[], any>;
+  at: Placement<string>;
+  priority: number;
+  depth: number;
+  index: number;
+  label?: string;
 };
 
-export function createApi<A extends {}>(name: string, handler: A): Api<A> {
+/**
+ * The named layers each {@link Api} was created with, so that APIs derived
+ * with {@link extendApi} can resolve the same names.
+ */
+const registeredLayers = new WeakMap<object, Record<string, number>>();
+
+export function createApi<A extends {}, L extends string = never>(
+  name: string,
+  handler: A,
+  options: ApiOptions<L> = {},
+): Api<A, L> {
   let fields = Object.keys(handler) as (keyof A)[];
+  let layers: Record<string, number> = options.layers ?? {};
+  for (let [layer, priority] of Object.entries(layers)) {
+    if (layer === "min" || layer === "max") {
+      throw new Error(
+        `cannot register layer "${layer}" on api "${name}": "min" and "max" are reserved`,
+      );
+    }
+    assertPriority(name, layer, priority);
+  }
+
   let context = createContext<ScopeMiddleware<A>>(`$api:${name}`, {
-    max: [],
-    min: [],
+    layers: [],
   });
 
   let operations = fields.reduce(
@@ -81,8 +206,7 @@ export function createApi<A extends {}>(name: string, handler: A): Api<A> {
           [field]: (...args: any[]) => ({
             *[Symbol.iterator]() {
               let scope = yield* useScope();
-              let { max, min } = collectMiddleware(scope, context, field);
-              let stack = combine([...max, ...min]);
+              let stack = combine(collectStack(scope, context, field));
               let result = stack(args, fn);
               return isOperation(result) ? yield* result : result;
             },
@@ -93,8 +217,7 @@ export function createApi<A extends {}>(name: string, handler: A): Api<A> {
         [field]: {
           *[Symbol.iterator]() {
             let scope = yield* useScope();
-            let { max, min } = collectMiddleware(scope, context, field);
-            let stack = combine([...max, ...min]);
+            let stack = combine(collectStack(scope, context, field));
             let result = stack([], () => handle);
             return isOperation(result) ? yield* result : result;
           },
@@ -104,84 +227,242 @@ export function createApi<A extends {}>(name: string, handler: A): Api<A> {
     {} as Operations<A>,
   );
 
+  function priorityOf(at: Placement<string>): number {
+    if (at === "max") {
+      return Number.POSITIVE_INFINITY;
+    }
+    if (at === "min") {
+      return Number.NEGATIVE_INFINITY;
+    }
+    if (typeof at === "object") {
+      assertPriority(name, "priority", at.priority);
+      return at.priority;
+    }
+    if (!Object.hasOwn(layers, at)) {
+      throw new Error(`unknown layer "${at}" on api "${name}"`);
+    }
+    return layers[at];
+  }
+
   function* around(
     middlewares: Partial<Around<A>>,
-    options: { at: "min" | "max" } = { at: "max" },
-  ): Operation<void> {
+    options: AroundOptions<L> = {},
+  ): Operation<MiddlewareHandle> {
+    let at: Placement<string> = options.at ?? "max";
+    let priority = priorityOf(at);
+
     let hasAny = fields.some((field) => Boolean((middlewares as any)[field]));
     if (!hasAny) {
-      return;
+      return { remove() {} };
     }
 
     let scope = yield* useScope();
     let current = scope.hasOwn(context)
       ? scope.expect(context)
-      : { max: [], min: [] };
+      : { layers: [] };
+
+    let layer: Layer<A> = {
+      around: options.once
+        ? once(middlewares, () => handle.remove())
+        : middlewares,
+      at,
+      priority,
+      label: options.label,
+    };
+
+    scope.set(context, { layers: [...current.layers, layer] });
 
-    let next: ScopeMiddleware<A> = {
-      max: [...current.max],
-      min: [...current.min],
+    let handle: MiddlewareHandle = {
+      remove() {
+        if (!scope.hasOwn(context)) {
+          return;
+        }
+        let { layers } = scope.expect(context);
+        scope.set(context, { layers: layers.filter((l) => l !== layer) });
+      },
     };
 
-    if (options.at === "min") {
-      next.min = [middlewares, ...next.min];
-    } else {
-      next.max.push(middlewares);
+    return handle;
+  }
+
+  function* inspect<K extends keyof A>(
+    field: K,
+  ): Operation<MiddlewareLayer<A, K, L>[]> {
+    let scope = yield* useScope();
+    return collectMiddleware<A>(scope, context, field).map(
+      ({ middleware, at, priority, depth, label }) => ({
+        middleware: middleware as PropertyMiddleware<A, K>,
+        at: at as Placement<L>,
+        priority,
+        depth,
+        label,
+      }),
+    );
+  }
+
+  let api: Api<A, L> = { name, operations, around, inspect };
+  registeredLayers.set(api, layers);
+  return api;
+}
+
+/**
+ * Derive a new {@link Api} that has every field of `base` plus the fields
+ * of `additions`.
+ *
+ * Inherited fields delegate to the operations of `base`, so middleware
+ * installed with `base.around()` still applies to them. Middleware installed
+ * on the derived Api wraps outside of it. Because calls to inherited fields
+ * always go through `base.operations`, they are presented in their lifted
+ * {@link Operations} form, and their middleware is operation middleware.
+ *
+ * The derived Api shares the named layers of `base`.
+ *
+ * @example
+ * ```ts
+ * import { createApi, extendApi } from "@effectionx/context-api";
+ *
+ * const files = createApi("files", {
+ *   *readTextFile(path: string): Operation<string> {
+ *     return yield* until(readFile(path, "utf-8"));
+ *   },
+ * });
+ *
+ * const config = extendApi(files, "config", {
+ *   *readConfig(path: string): Operation<Config> {
+ *     return JSON.parse(yield* files.operations.readTextFile(path));
+ *   },
+ * });
+ *
+ * const { readConfig, readTextFile } = config.operations;
+ * ```
+ */
+export function extendApi<B extends {}, E extends {}, L extends string = never>(
+  base: Api<B, L>,
+  name: string,
+  additions: E,
+): Api<Operations<B> & E, L> {
+  let handler: Record<string, unknown> = { ...base.operations };
+
+  for (let field of Object.keys(additions)) {
+    if (Object.hasOwn(handler, field)) {
+      throw new Error(
+        `cannot extend api with "${field}": it is already defined by the base api`,
+      );
     }
+    handler[field] = (additions as Record<string, unknown>)[field];
+  }
+
+  let layers = (registeredLayers.get(base) ?? {}) as Record<L, number>;
+
+  return createApi(name, handler as Operations<B> & E, { layers });
+}
+
+function assertPriority(name: string, layer: string, priority: unknown) {
+  if (typeof priority !== "number" || !Number.isFinite(priority)) {
+    throw new Error(
+      `invalid ${layer} on api "${name}": expected a finite number, got ${String(priority)}`,
+    );
+  }
+}
 
-    scope.set(context, next);
+/**
+ * Wrap every middleware of a layer so that the first call through any of
+ * them invokes `remove` and later calls pass straight through to `next`.
+ */
+function once<A>(
+  middlewares: Partial<Around<A>>,
+  remove: () => void,
+): Partial<Around<A>> {
+  let spent = false;
+  let wrapped: Record<string, Middleware<any[], any>> = {};
+  for (let [field, middleware] of Object.entries(middlewares)) {
+    let fn = middleware as Middleware<any[], any> | undefined;
+    if (!fn) {
+      continue;
+    }
+    wrapped[field] = (args, next) => {
+      if (spent) {
+        return next(...args);
+      }
+      spent = true;
+      remove();
+      return fn(args, next);
+    };
   }
+  return wrapped as Partial<Around<A>>;
+}
 
-  return { operations, around };
+function collectStack<A extends {}>(
+  scope: Scope,
+  context: { name?: string; key?: string },
+  field: keyof A,
+): Middleware<any[], any>[] {
+  return collectMiddleware(scope, context, field).map(
+    (layer) => layer.middleware,
+  );
 }
 
 function collectMiddleware<A extends {}>(
   scope: Scope,
   context: { name?: string; key?: string },
   field: keyof A,
-): MiddlewareStack {
+): CollectedLayer[] {
   let key = contextName(context);
   let window = contextWindow(scope);
 
-  return reducePrototypeChain(
+  let collected = reducePrototypeChain(
     window,
-    (sum, current) => {
+    (sum, current, depth) => {
       if (!Object.prototype.hasOwnProperty.call(current, key)) {
         return sum;
       }
 
       let state = current[key] as ScopeMiddleware<A>;
 
-      let max = state.max.flatMap((around) => {
-        let middleware = (around as any)[field] as
-          | Middleware<any[], any>
-          | undefined;
-        return middleware ? [middleware] : [];
-      });
-      let min = state.min.flatMap((around) => {
+      state.layers.forEach(({ around, at, priority, label }, index) => {
         let middleware = (around as any)[field] as
           | Middleware<any[], any>
           | undefined;
-        return middleware ? [middleware] : [];
+        if (middleware) {
+          sum.push({ middleware, at, priority, depth, index, label });
+        }
       });
-
-      sum.max.unshift(...max);
-      sum.min.push(...min);
       return sum;
     },
-    { max: [], min: [] } as MiddlewareStack,
+    [] as CollectedLayer[],
   );
+
+  return collected.sort(compareLayers);
+}
+
+/**
+ * Order layers outermost first. Higher priorities wrap lower ones. Within
+ * a priority, layers installed in ancestor scopes wrap those installed in
+ * descendants, and earlier installations wrap later ones. `"min"` layers
+ * are the exception: the layer nearest the call site, and within a scope
+ * the most recently installed, intercepts first so that it can replace
+ * whatever implementation was provided further away.
+ */
+function compareLayers(a: CollectedLayer, b: CollectedLayer): number {
+  if (a.priority !== b.priority) {
+    return a.priority > b.priority ? -1 : 1;
+  }
+  if (a.priority === Number.NEGATIVE_INFINITY) {
+    return a.depth - b.depth || b.index - a.index;
+  }
+  return b.depth - a.depth || a.index - b.index;
 }
 
 function reducePrototypeChain<T>(
   start: Record<string, unknown>,
-  reducer: (sum: T, current: Record<string, unknown>) => T,
+  reducer: (sum: T, current: Record<string, unknown>, depth: number) => T,
   initial: T,
 ): T {
   let sum = initial;
+  let depth = 0;
   let current: Record<string, unknown> | null = start;
   while (current) {
-    sum = reducer(sum, current);
+    sum = reducer(sum, current, depth++);
     current = Object.getPrototypeOf(current);
   }
   return sum;
@@ -219,7 +500,9 @@ function isRecord(value: unknown): value is Record<string, unknown> {
  * Excludes native iterables (strings, arrays, Maps, Sets) which have
  * `[Symbol.iterator]` but are not Operations.
  */
-function isOperation<T>(target: Operation<T> | T): target is Operation<T> {
+export function isOperation<T>(
+  target: Operation<T> | T,
+): target is Operation<T> {
   return (
     target != null &&
     !isNativeIterable(target) &&
@@ -227,6 +510,41 @@ function isOperation<T>(target: Operation<T> | T): target is Operation<T> {
   );
 }
 
+/**
+ * Call `next` from a middleware that wraps every field of an API, whatever
+ * the kind of field. The next link of a middleware stack returns an
+ * operation for operation handlers, and a plain value for synchronous
+ * functions and constants; either way, this returns the value of the call.
+ */
+export function* invoke(
+  next: (...args: unknown[]) => unknown,
+  args: unknown[],
+): Operation<unknown> {
+  let result = next(...args);
+  return isOperation(result) ? yield* result : result;
+}
+
+/**
+ * The name and message of an error thrown by a call, in a form that can be
+ * stored as JSON or sent elsewhere.
+ */
+export interface ErrorSummary {
+  name: string;
+  message: string;
+}
+
+/**
+ * Summarize anything thrown by a call as an {@link ErrorSummary}. Values
+ * that are not errors are summarized as an `"Error"` with their string form
+ * as the message.
+ */
+export function summarizeError(error: unknown): ErrorSummary {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: "Error", message: String(error) };
+}
+
 function isNativeIterable(target: unknown): boolean {
   return (
     typeof target === "string" ||
@@ -0,0 +1,196 @@
+import { describe, it } from "@effectionx/vitest";
+import { type Operation, spawn, suspend, withResolvers } from "effection";
+import { expect } from "expect";
+
+import {
+  type CircuitBreaker,
+  CircuitOpenError,
+  type CircuitState,
+  useCircuitBreaker,
+} from "./circuit-breaker.ts";
+
+function* failure(): Operation<string> {
+  throw new Error("unavailable");
+}
+
+function* success(): Operation<string> {
+  return "ok";
+}
+
+function* attempt(
+  breaker: CircuitBreaker,
+  operation: () => Operation<string>,
+): Operation<string> {
+  try {
+    return yield* breaker.run(operation);
+  } catch (error) {
+    return (error as Error).name === "CircuitOpenError" ? "rejected" : "failed";
+  }
+}
+
+function* becomes(
+  breaker: CircuitBreaker,
+  target: CircuitState,
+): Operation<void> {
+  const states = yield* breaker.states;
+  while (breaker.state !== target) {
+    yield* states.next();
+  }
+}
+
+describe("useCircuitBreaker()", () => {
+  it("opens after failureThreshold failures within the window", function* () {
+    const breaker = yield* useCircuitBreaker({
+      failureThreshold: 2,
+      window: 60_000,
+      cooldown: 60_000,
+    });
+
+    expect(yield* attempt(breaker, failure)).toEqual("failed");
+    expect(breaker.state).toEqual("closed");
+    expect(yield* attempt(breaker, failure)).toEqual("failed");
+    expect(breaker.state).toEqual("open");
+
+    let ran = false;
+    let error: unknown;
+    try {
+      yield* breaker.run(function* () {
+        ran = true;
+        return "ok";
+      });
+    } catch (e) {
+      error = e;
+    }
+    expect(ran).toEqual(false);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).state).toEqual("open");
+  });
+
+  it("only counts failures within the rolling window", function* () {
+    const breaker = yield* useCircuitBreaker({
+      failureThreshold: 2,
+      window: 0,
+      cooldown: 60_000,
+    });
+
+    yield* attempt(breaker, failure);
+    yield* attempt(breaker, failure);
+    yield* attempt(breaker, failure);
+
+    expect(breaker.state).toEqual("closed");
+  });
+
+  it("ignores errors that are not failures", function* () {
+    const breaker = yield* useCircuitBreaker({
+      failureThreshold: 1,
+      window: 60_000,
+      cooldown: 60_000,
+      isFailure: (error) => (error as Error).message !== "unavailable",
+    });
+
+    expect(yield* attempt(breaker, failure)).toEqual("failed");
+    expect(breaker.state).toEqual("closed");
+  });
+
+  it("closes again after a successful trial call", function* () {
+    const breaker = yield* useCircuitBreaker({
+      failureThreshold: 1,
+      window: 60_000,
+      cooldown: 1,
+    });
+
+    yield* attempt(breaker, failure);
+    expect(breaker.state).toEqual("open");
+
+    yield* becomes(breaker, "half-open");
+    expect(yield* attempt(breaker, success)).toEqual("ok");
+    expect(breaker.state).toEqual("closed");
+  });
+
+  it("reopens when the trial call fails", function* () {
+    const breaker = yield* useCircuitBreaker({
+      failureThreshold: 1,
+      window: 60_000,
+      cooldown: 1,
+    });
+
+    yield* attempt(breaker, failure);
+    yield* becomes(breaker, "half-open");
+
+    expect(yield* attempt(breaker, failure)).toEqual("failed");
+    expect(breaker.state).toEqual("open");
+  });
+
+  it("lets one trial call through at a time", function* () {
+    const breaker = yield* useCircuitBreaker({
+      failureThreshold: 1,
+      window: 60_000,
+      cooldown: 1,
+      successThreshold: 2,
+    });
+
+    yield* attempt(breaker, failure);
+    yield* becomes(breaker, "half-open");
+
+    const started = withResolvers<void>();
+    const finish = withResolvers<void>();
+    const trial = yield* spawn(() =>
+      breaker.run(function* () {
+        started.resolve();
+        yield* finish.operation;
+        return "ok";
+      }),
+    );
+    yield* started.operation;
+
+    expect(yield* attempt(breaker, success)).toEqual("rejected");
+
+    finish.resolve();
+    yield* trial;
+    expect(breaker.state).toEqual("half-open");
+
+    expect(yield* attempt(breaker, success)).toEqual("ok");
+    expect(breaker.state).toEqual("closed");
+  });
+
+  it("frees the trial when the trial call is halted", function* () {
+    const breaker = yield* useCircuitBreaker({
+      failureThreshold: 1,
+      window: 60_000,
+      cooldown: 1,
+    });
+
+    yield* attempt(breaker, failure);
+    yield* becomes(breaker, "half-open");
+
+    const started = withResolvers<void>();
+    const trial = yield* spawn(() =>
+      breaker.run(function* () {
+        started.resolve();
+        yield* suspend();
+        return "never";
+      }),
+    );
+    yield* started.operation;
+    yield* trial.halt();
+
+    expect(breaker.state).toEqual("half-open");
+    expect(yield* attempt(breaker, success)).toEqual("ok");
+  });
+
+  it("streams every change of state", function* () {
+    const breaker = yield* useCircuitBreaker({
+      failureThreshold: 1,
+      window: 60_000,
+      cooldown: 1,
+    });
+    const states = yield* breaker.states;
+
+    yield* attempt(breaker, failure);
+    expect((yield* states.next()).value).toEqual("open");
+    expect((yield* states.next()).value).toEqual("half-open");
+
+    yield* attempt(breaker, success);
+    expect((yield* states.next()).value).toEqual("closed");
+  });
+});
@@ -0,0 +1,190 @@
+import { createValueSignal } from "@effectionx/signals";
+import type { Operation, Stream } from "effection";
+import { resource, sleep, useScope } from "effection";
+
+/**
+ * The state of a {@link CircuitBreaker}.
+ *
+ * - `"closed"` — calls go through, and failures are counted
+ * - `"open"` — calls fail right away with a {@link CircuitOpenError}
+ * - `"half-open"` — one trial call at a time goes through to decide whether
+ *   to close the circuit again or to reopen it
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /**
+   * How many failures within `window` open the circuit.
+   */
+  failureThreshold: number;
+  /**
+   * The length of the rolling window that failures are counted in, in
+   * milliseconds.
+   */
+  window: number;
+  /**
+   * How long the circuit stays open before it lets a trial call through,
+   * in milliseconds.
+   */
+  cooldown: number;
+  /**
+   * How many trial calls in a row must succeed in the half-open state to
+   * close the circuit. Defaults to 1.
+   */
+  successThreshold?: number;
+  /**
+   * Whether an error counts as a failure of the dependency. Errors it
+   * rejects are thrown to the caller without affecting the circuit.
+   * Defaults to counting every error.
+   */
+  isFailure?: (error: unknown) => boolean;
+}
+
+export interface CircuitBreaker {
+  /**
+   * Run `operation` if the circuit allows it, and record how it went.
+   * Throws a {@link CircuitOpenError} without running it otherwise.
+   */
+  run<T>(operation: () => Operation<T>): Operation<T>;
+  /**
+   * The current state of the circuit.
+   */
+  readonly state: CircuitState;
+  /**
+   * Every change of state, as it happens.
+   */
+  states: Stream<CircuitState, void>;
+}
+
+/**
+ * Error thrown by {@link CircuitBreaker.run} when the circuit does not let
+ * the call through.
+ */
+export class CircuitOpenError extends Error {
+  readonly name = "CircuitOpenError";
+  /** The state the circuit was in when it rejected the call. */
+  readonly state: CircuitState;
+
+  constructor(state: CircuitState) {
+    super(`circuit is ${state}`);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.state = state;
+  }
+}
+
+/**
+ * Create a circuit breaker that stops calling a failing dependency for a
+ * while. Once `failureThreshold` calls have failed within `window`, the
+ * circuit opens and every call fails right away. After `cooldown`, it lets
+ * a trial call through: if it succeeds the circuit closes, and if it fails
+ * the circuit opens again.
+ *
+ * @example
+ * ```ts
+ * import { request, useCircuitBreaker } from "@effectionx/fx";
+ *
+ * function* run() {
+ *   const breaker = yield* useCircuitBreaker({
+ *     failureThreshold: 5,
+ *     window: 10_000,
+ *     cooldown: 30_000,
+ *   });
+ *
+ *   const response = yield* breaker.run(() => request("https://api.com"));
+ * }
+ * ```
+ */
+export function useCircuitBreaker(
+  options: CircuitBreakerOptions,
+): Operation<CircuitBreaker> {
+  const {
+    failureThreshold,
+    window,
+    cooldown,
+    successThreshold = 1,
+    isFailure = () => true,
+  } = options;
+
+  return resource(function* (provide) {
+    const state = yield* createValueSignal<CircuitState>("closed");
+    const scope = yield* useScope();
+    let failures: number[] = [];
+    let successes = 0;
+    let trial = false;
+
+    function* open(): Operation<void> {
+      state.set("open");
+      failures = [];
+      successes = 0;
+      yield* scope.spawn(function* () {
+        yield* sleep(cooldown);
+        state.set("half-open");
+      });
+    }
+
+    function* fail(isTrial: boolean): Operation<void> {
+      if (isTrial) {
+        yield* open();
+        return;
+      }
+      if (state.valueOf() !== "closed") {
+        // a call that started before the circuit opened
+        return;
+      }
+      const now = Date.now();
+      failures = failures.filter((time) => now - time < window);
+      failures.push(now);
+      if (failures.length >= failureThreshold) {
+        yield* open();
+      }
+    }
+
+    function succeed(isTrial: boolean): void {
+      if (isTrial) {
+        successes += 1;
+        if (successes >= successThreshold) {
+          failures = [];
+          successes = 0;
+          state.set("closed");
+        }
+      }
+    }
+
+    yield* provide({
+      *run<T>(operation: () => Operation<T>): Operation<T> {
+        const current = state.valueOf();
+        if (current === "open" || (current === "half-open" && trial)) {
+          throw new CircuitOpenError(current);
+        }
+
+        const isTrial = current === "half-open";
+        if (isTrial) {
+          trial = true;
+        }
+        try {
+          let value: T;
+          try {
+            value = yield* operation();
+          } catch (error) {
+            if (isFailure(error)) {
+              yield* fail(isTrial);
+            }
+            throw error;
+          }
+          succeed(isTrial);
+          return value;
+        } finally {
+          if (isTrial) {
+            trial = false;
+          }
+        }
+      },
+      get state() {
+        return state.valueOf();
+      },
+      states: {
+        [Symbol.iterator]: () => state[Symbol.iterator](),
+      },
+    });
+  });
+}
@@ -0,0 +1,170 @@
+import { describe, it } from "@effectionx/vitest";
+import {
+  type Operation,
+  sleep,
+  spawn,
+  suspend,
+  type Task,
+  withResolvers,
+} from "effection";
+import { expect } from "expect";
+
+import { debounced, throttled } from "./debounce.ts";
+
+function* callAll<T>(
+  call: (value: string) => Operation<T>,
+  values: string[],
+): Operation<Task<T>[]> {
+  const tasks: Task<T>[] = [];
+  for (const value of values) {
+    tasks.push(yield* spawn(() => call(value)));
+    yield* sleep(0);
+  }
+  return tasks;
+}
+
+function* joinAll<T>(tasks: Task<T>[]): Operation<T[]> {
+  const values: T[] = [];
+  for (const task of tasks) {
+    values.push(yield* task);
+  }
+  return values;
+}
+
+describe("debounced()", () => {
+  it("only runs the last of calls made in quick succession", function* () {
+    const calls: string[] = [];
+    const search = debounced(function* (query: string) {
+      calls.push(query);
+      return query.toUpperCase();
+    }, 10);
+
+    const tasks = yield* callAll(search, ["a", "ab", "abc"]);
+
+    expect(yield* joinAll(tasks)).toEqual(["ABC", "ABC", "ABC"]);
+    expect(calls).toEqual(["abc"]);
+  });
+
+  it("halts a running call when a newer call is made", function* () {
+    const log: string[] = [];
+    const started = withResolvers<void>();
+    const search = debounced(function* (query: string) {
+      log.push(`start ${query}`);
+      if (query === "a") {
+        try {
+          started.resolve();
+          yield* suspend();
+        } finally {
+          log.push(`halted ${query}`);
+        }
+      }
+      return query.toUpperCase();
+    }, 0);
+
+    const first = yield* spawn(() => search("a"));
+    yield* started.operation;
+    const second = yield* spawn(() => search("ab"));
+
+    expect(yield* first).toEqual("AB");
+    expect(yield* second).toEqual("AB");
+    expect(log).toEqual(["start a", "halted a", "start ab"]);
+  });
+
+  it("fails every waiting call with the error of the call that ran", function* () {
+    const save = debounced(function* (_doc: string): Operation<void> {
+      throw new Error("disk full");
+    }, 10);
+
+    const tasks = yield* callAll(
+      function* (doc) {
+        try {
+          yield* save(doc);
+          return "saved";
+        } catch (error) {
+          return (error as Error).message;
+        }
+      },
+      ["a", "b"],
+    );
+
+    expect(yield* joinAll(tasks)).toEqual(["disk full", "disk full"]);
+  });
+
+  it("halts the call when its caller is halted", function* () {
+    const log: string[] = [];
+    const started = withResolvers<void>();
+    const save = debounced(function* () {
+      try {
+        started.resolve();
+        yield* suspend();
+      } finally {
+        log.push("halted");
+      }
+    }, 0);
+
+    const task = yield* spawn(() => save());
+    yield* started.operation;
+    yield* task.halt();
+
+    expect(log).toEqual(["halted"]);
+  });
+});
+
+describe("throttled()", () => {
+  it("runs the first call right away and the last one after ms", function* () {
+    const calls: string[] = [];
+    const save = throttled(function* (doc: string) {
+      calls.push(doc);
+      return doc;
+    }, 20);
+
+    const start = Date.now();
+    const tasks = yield* callAll(save, ["a", "b", "c"]);
+    expect(calls).toEqual(["a"]);
+
+    expect(yield* joinAll(tasks)).toEqual(["a", "c", "c"]);
+    expect(calls).toEqual(["a", "c"]);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+  });
+
+  it("waits for the first call without leading", function* () {
+    const calls: string[] = [];
+    const save = throttled(
+      function* (doc: string) {
+        calls.push(doc);
+        return doc;
+      },
+      20,
+      { leading: false },
+    );
+
+    const tasks = yield* callAll(save, ["a", "b"]);
+    expect(calls).toEqual([]);
+
+    expect(yield* joinAll(tasks)).toEqual(["b", "b"]);
+    expect(calls).toEqual(["b"]);
+  });
+
+  it("returns the result of the leading run without trailing", function* () {
+    const calls: string[] = [];
+    const save = throttled(
+      function* (doc: string) {
+        calls.push(doc);
+        return doc;
+      },
+      60_000,
+      { trailing: false },
+    );
+
+    const tasks = yield* callAll(save, ["a", "b", "c"]);
+
+    expect(yield* joinAll(tasks)).toEqual(["a", "a", "a"]);
+    expect(calls).toEqual(["a"]);
+  });
+
+  it("rejects turning off both leading and trailing", function* () {
+    expect(() =>
+      throttled(function* () {}, 10, { leading: false, trailing: false }),
+    ).toThrow(RangeError);
+  });
+});
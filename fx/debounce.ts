@@ -0,0 +1,190 @@
+import type { Operation, Result, Task } from "effection";
+import { Err, Ok, sleep, spawn, withResolvers } from "effection";
+
+export interface ThrottleOptions {
+  /**
+   * Run the first call of a quiet period right away. Defaults to `true`.
+   */
+  leading?: boolean;
+  /**
+   * Run the last call made while throttled once `ms` have passed since the
+   * previous run. Defaults to `true`.
+   */
+  trailing?: boolean;
+}
+
+/**
+ * Wrap `fn` so that it only runs once calls have stopped coming for `ms`.
+ * Each call waits `ms` before running `fn`, and a newer call halts any
+ * earlier one, whether it is still waiting or already running. A halted
+ * call does not fail: it returns whatever the call that replaced it returns.
+ *
+ * `fn` runs in a task owned by the caller, so it is also halted if the
+ * caller is.
+ *
+ * @example
+ * ```ts
+ * import { debounced } from "@effectionx/fx";
+ *
+ * const search = debounced(function* (query: string) {
+ *   return yield* request(`/search?q=${query}`);
+ * }, 300);
+ *
+ * function* onInput(query: string) {
+ *   const results = yield* search(query);
+ * }
+ * ```
+ */
+export function debounced<TArgs extends unknown[], T>(
+  fn: (...args: TArgs) => Operation<T>,
+  ms: number,
+): (...args: TArgs) => Operation<T> {
+  let latest: Invocation<T> | undefined;
+
+  return (...args) => ({
+    *[Symbol.iterator]() {
+      const invocation = createInvocation<T>();
+      const previous = latest;
+      latest = invocation;
+      if (previous) {
+        yield* supersede(previous, invocation);
+      }
+      yield* start(invocation, ms, () => fn(...args));
+      return yield* settle(invocation);
+    },
+  });
+}
+
+/**
+ * Wrap `fn` so that it runs at most once every `ms`. With `leading`, the
+ * first call runs right away. With `trailing`, the last call made in the
+ * meantime runs once `ms` have passed since then, and halts the calls it
+ * replaces. Calls that do not run return whatever the run that replaced
+ * them returns.
+ *
+ * As with {@link debounced}, starting a run halts the previous one if it
+ * is still going, so only one runs at a time.
+ *
+ * @example
+ * ```ts
+ * import { throttled } from "@effectionx/fx";
+ *
+ * const save = throttled(function* (doc: Doc) {
+ *   yield* writeFile("doc.json", JSON.stringify(doc));
+ * }, 1000);
+ *
+ * function* onChange(doc: Doc) {
+ *   yield* save(doc);
+ * }
+ * ```
+ */
+export function throttled<TArgs extends unknown[], T>(
+  fn: (...args: TArgs) => Operation<T>,
+  ms: number,
+  options: ThrottleOptions = {},
+): (...args: TArgs) => Operation<T> {
+  const { leading = true, trailing = true } = options;
+  if (!leading && !trailing) {
+    throw new RangeError("throttled() needs leading or trailing to be true");
+  }
+  // the time until which new calls are throttled
+  let until = 0;
+  let pending: Invocation<T> | undefined;
+  let last: Invocation<T> | undefined;
+
+  function* run(invocation: Invocation<T>): Operation<void> {
+    if (pending === invocation) {
+      pending = undefined;
+    }
+    const previous = last;
+    last = invocation;
+    until = Date.now() + ms;
+    if (previous) {
+      yield* supersede(previous, invocation);
+    }
+  }
+
+  return (...args) => ({
+    *[Symbol.iterator]() {
+      const now = Date.now();
+      if (now >= until && leading) {
+        const invocation = createInvocation<T>();
+        yield* run(invocation);
+        yield* start(invocation, 0, () => fn(...args));
+        return yield* settle(invocation);
+      }
+      if (!trailing) {
+        // a leading run happened within the last `ms`
+        return yield* settle(last as Invocation<T>);
+      }
+      if (now >= until) {
+        until = now + ms;
+      }
+      const invocation = createInvocation<T>();
+      const previous = pending;
+      pending = invocation;
+      if (previous) {
+        yield* supersede(previous, invocation);
+      }
+      yield* start(invocation, until - now, function* () {
+        yield* run(invocation);
+        return yield* fn(...args);
+      });
+      return yield* settle(invocation);
+    },
+  });
+}
+
+type Outcome<T> = Result<T> | { supersededBy: Invocation<T> };
+
+interface Invocation<T> {
+  outcome: ReturnType<typeof withResolvers<Outcome<T>>>;
+  task?: Task<void>;
+}
+
+function createInvocation<T>(): Invocation<T> {
+  return { outcome: withResolvers<Outcome<T>>() };
+}
+
+function* start<T>(
+  invocation: Invocation<T>,
+  delay: number,
+  body: () => Operation<T>,
+): Operation<void> {
+  const { outcome } = invocation;
+  invocation.task = yield* spawn(function* () {
+    try {
+      if (delay > 0) {
+        yield* sleep(delay);
+      }
+      outcome.resolve(Ok(yield* body()));
+    } catch (error) {
+      outcome.resolve(Err(error as Error));
+    } finally {
+      // only takes effect if the caller was halted; calls waiting on this
+      // one have nothing left to wait for
+      outcome.resolve(Err(new Error("call was halted before it finished")));
+    }
+  });
+}
+
+function* supersede<T>(
+  invocation: Invocation<T>,
+  by: Invocation<T>,
+): Operation<void> {
+  invocation.outcome.resolve({ supersededBy: by });
+  if (invocation.task) {
+    yield* invocation.task.halt();
+  }
+}
+
+function* settle<T>(invocation: Invocation<T>): Operation<T> {
+  let outcome = yield* invocation.outcome.operation;
+  while (!("ok" in outcome)) {
+    outcome = yield* outcome.supersededBy.outcome.operation;
+  }
+  if (outcome.ok) {
+    return outcome.value;
+  }
+  throw outcome.error;
+}
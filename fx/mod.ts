@@ -2,3 +2,8 @@ export * from "./parallel.ts";
 export * from "./safe.ts";
 export * from "./race.ts";
 export * from "./request.ts";
+export * from "./retry.ts";
+export * from "./circuit-breaker.ts";
+export * from "./result.ts";
+export * from "./rate-limiter.ts";
+export * from "./debounce.ts";
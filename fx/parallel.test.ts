@@ -1,5 +1,5 @@
 import { describe, it } from "@effectionx/vitest";
-import { Err, Ok, each, sleep, spawn, until } from "effection";
+import { Err, Ok, each, sleep, spawn, suspend, until } from "effection";
 import { expect } from "expect";
 
 import { parallel } from "./parallel.ts";
@@ -136,4 +136,115 @@ describe("parallel()", () => {
     const expected = [Err(err), Ok(1)];
     expect(actual).toEqual(expected);
   });
+
+  describe("with options", () => {
+    it("runs at most `concurrency` operations at once", function* () {
+      let running = 0;
+      let most = 0;
+      const operations = [1, 2, 3, 4, 5, 6].map(
+        (value) =>
+          function* () {
+            running += 1;
+            most = Math.max(most, running);
+            yield* sleep(0);
+            running -= 1;
+            return value;
+          },
+      );
+
+      const results = yield* parallel(operations, { concurrency: 2 });
+
+      expect(yield* results).toEqual([1, 2, 3, 4, 5, 6].map((n) => Ok(n)));
+      expect(most).toEqual(2);
+    });
+
+    it("delivers the sequence in array order when limited", function* () {
+      const results = yield* parallel(
+        [
+          function* () {
+            yield* sleep(0);
+            return "first";
+          },
+          function* () {
+            return "second";
+          },
+          function* () {
+            return "third";
+          },
+        ],
+        { concurrency: 2 },
+      );
+
+      const res: Result<string>[] = [];
+      for (const val of yield* each(results.sequence)) {
+        res.push(val);
+        yield* each.next();
+      }
+
+      expect(res).toEqual([Ok("first"), Ok("second"), Ok("third")]);
+    });
+
+    it("halts the remaining operations on the first failure with failFast", function* () {
+      const log: string[] = [];
+      const boom = new Error("boom");
+
+      const results = yield* parallel(
+        [
+          function* (): Operation<string> {
+            yield* sleep(0);
+            throw boom;
+          },
+          function* (): Operation<string> {
+            try {
+              log.push("started slow");
+              yield* suspend();
+              return "slow";
+            } finally {
+              log.push("halted slow");
+            }
+          },
+          function* (): Operation<string> {
+            log.push("started last");
+            return "last";
+          },
+        ],
+        { concurrency: 2, failFast: true },
+      );
+
+      const [failed, slow, last] = yield* results;
+
+      expect(failed).toEqual(Err(boom));
+      expect(slow.ok).toEqual(false);
+      expect(last.ok).toEqual(false);
+      if (!slow.ok && !last.ok) {
+        expect(slow.error.cause).toBe(boom);
+        expect(last.error.cause).toBe(boom);
+      }
+      expect(log).toEqual(["started slow", "halted slow"]);
+    });
+
+    it("waits for every operation without failFast", function* () {
+      const boom = new Error("boom");
+
+      const results = yield* parallel(
+        [
+          function* (): Operation<string> {
+            throw boom;
+          },
+          function* (): Operation<string> {
+            yield* sleep(0);
+            return "done";
+          },
+        ],
+        { concurrency: 1 },
+      );
+
+      expect(yield* results).toEqual([Err(boom), Ok("done")]);
+    });
+
+    it("rejects a concurrency that is not a positive integer", function* () {
+      expect(() => parallel([], { concurrency: 0 })).toThrow(RangeError);
+      expect(() => parallel([], { concurrency: 1.5 })).toThrow(RangeError);
+    });
+  });
 });
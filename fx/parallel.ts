@@ -1,5 +1,5 @@
 import type { Channel, Operation, Result, Task } from "effection";
-import { createChannel, resource, spawn } from "effection";
+import { Err, createChannel, resource, spawn, withResolvers } from "effection";
 
 import { safe } from "./safe.ts";
 
@@ -8,6 +8,21 @@ export interface ParallelRet<T> extends Operation<Result<T>[]> {
   immediate: Channel<Result<T>, void>;
 }
 
+export interface ParallelOptions {
+  /**
+   * The most operations to run at once. Operations start in array order as
+   * earlier ones complete. Defaults to running every operation at once.
+   */
+  concurrency?: number;
+  /**
+   * Halt the remaining operations as soon as one of them fails. Operations
+   * that were halted, or never started, appear in `sequence` and in the
+   * returned array as an `Err` whose `cause` is the error of the operation
+   * that failed. Defaults to `false`.
+   */
+  failFast?: boolean;
+}
+
 /**
  * The goal of `parallel` is to make it easier to cooridnate multiple async
  * operations in parallel, with different ways to receive completed tasks.
@@ -59,29 +74,87 @@ export interface ParallelRet<T> extends Operation<Result<T>[]> {
  *  }
  * }
  * ```
+ *
+ * Large batches can be limited to a number of operations running at once,
+ * and stopped at the first failure:
+ *
+ * @example
+ * ```ts
+ * function* run() {
+ *  const task = yield* parallel(jobs, { concurrency: 8, failFast: true });
+ *  const results = yield* task;
+ * }
+ * ```
  */
 export function parallel<T, TArgs extends unknown[] = []>(
   operations: ((...args: TArgs) => Operation<T>)[],
+  options: ParallelOptions = {},
 ): Operation<ParallelRet<T>> {
+  const { concurrency = Number.POSITIVE_INFINITY, failFast = false } = options;
+  if (
+    concurrency !== Number.POSITIVE_INFINITY &&
+    !(Number.isInteger(concurrency) && concurrency > 0)
+  ) {
+    throw new RangeError(
+      `parallel() concurrency must be a positive integer, but was ${concurrency}`,
+    );
+  }
+
   const sequence = createChannel<Result<T>>();
   const immediate = createChannel<Result<T>>();
   const results: Result<T>[] = [];
 
   return resource<ParallelRet<T>>(function* (provide) {
     const task = yield* spawn(function* () {
-      const tasks = [] as Task<Result<T>>[];
-      for (const op of operations) {
-        tasks.push(
-          yield* spawn(function* () {
-            const result = yield* safe(op);
-            yield* immediate.send(result);
-            return result;
-          }),
-        );
+      const settled = operations.map(() => withResolvers<Result<T>>());
+      const failure = withResolvers<Error>();
+      let next = 0;
+
+      // A fixed number of workers take operations in array order, so that
+      // at most `concurrency` of them run at once.
+      const pool = yield* spawn(function* () {
+        const workers = [] as Task<void>[];
+        const size = Math.min(concurrency, operations.length);
+        for (let i = 0; i < size; i += 1) {
+          workers.push(
+            yield* spawn(function* () {
+              while (next < operations.length) {
+                const index = next;
+                next += 1;
+                const result = yield* safe(operations[index]);
+                settled[index].resolve(result);
+                yield* immediate.send(result);
+                if (failFast && !result.ok) {
+                  next = operations.length;
+                  failure.resolve(result.error);
+                }
+              }
+            }),
+          );
+        }
+        for (const worker of workers) {
+          yield* worker;
+        }
+      });
+
+      if (failFast) {
+        yield* spawn(function* () {
+          const error = yield* failure.operation;
+          yield* pool.halt();
+          for (const { resolve } of settled) {
+            resolve(
+              Err(
+                new Error("parallel operation halted after another failed", {
+                  cause: error,
+                }),
+              ),
+            );
+          }
+        });
       }
 
-      for (const tsk of tasks) {
-        const res = yield* tsk;
+      for (const { operation } of settled) {
+        const res = yield* operation;
         results.push(res);
         yield* sequence.send(res);
       }
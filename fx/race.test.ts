@@ -1,8 +1,8 @@
 import { describe, it } from "@effectionx/vitest";
-import { sleep } from "effection";
+import { type Operation, sleep, suspend } from "effection";
 import { expect } from "expect";
 
-import { raceMap } from "./race.ts";
+import { raceMap, raceWinner } from "./race.ts";
 
 describe("raceMap()", () => {
   it("should return the result of the first completed operation", function* () {
@@ -49,3 +49,106 @@ describe("raceMap()", () => {
     expect(secondCompleted).toBe(false);
   });
 });
+
+describe("raceWinner()", () => {
+  it("reports the key and value of the first operation to finish", function* () {
+    const winner = yield* raceWinner({
+      *slow(): Operation<string> {
+        yield* suspend();
+        return "never";
+      },
+      *fast(): Operation<number> {
+        return 42;
+      },
+    });
+
+    expect(winner).toEqual({ key: "fast", value: 42 });
+    if (winner.key === "fast") {
+      // the value is typed by the key
+      const value: number = winner.value;
+      expect(value).toEqual(42);
+    }
+  });
+
+  it("halts the operations that lost", function* () {
+    const log: string[] = [];
+    yield* raceWinner({
+      *loser(): Operation<void> {
+        try {
+          yield* suspend();
+        } finally {
+          log.push("loser halted");
+        }
+      },
+      *winner(): Operation<void> {
+        yield* sleep(0);
+      },
+    });
+
+    expect(log).toEqual(["loser halted"]);
+  });
+
+  it("fails with the first failure in first mode", function* () {
+    let error: unknown;
+    try {
+      yield* raceWinner({
+        *failing(): Operation<string> {
+          throw new Error("boom");
+        },
+        *slow(): Operation<string> {
+          yield* suspend();
+          return "never";
+        },
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect((error as Error).message).toEqual("boom");
+  });
+
+  it("ignores failures until one succeeds in any mode", function* () {
+    const winner = yield* raceWinner(
+      {
+        *failing(): Operation<string> {
+          throw new Error("boom");
+        },
+        *healthy(): Operation<string> {
+          yield* sleep(0);
+          return "ok";
+        },
+      },
+      { mode: "any" },
+    );
+
+    expect(winner).toEqual({ key: "healthy", value: "ok" });
+  });
+
+  it("fails with every failure once all fail in any mode", function* () {
+    const first = new Error("first down");
+    const second = new Error("second down");
+    let error: unknown;
+    try {
+      yield* raceWinner(
+        {
+          *one(): Operation<string> {
+            yield* sleep(0);
+            throw first;
+          },
+          *two(): Operation<string> {
+            throw second;
+          },
+        },
+        { mode: "any" },
+      );
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(AggregateError);
+    expect((error as AggregateError).errors).toEqual([first, second]);
+    expect((error as AggregateError).message).toMatch(
+      /one: first down; two: second down/,
+    );
+  });
+});
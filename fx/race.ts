@@ -1,5 +1,5 @@
-import type { Operation, Task } from "effection";
-import { resource, spawn, withResolvers } from "effection";
+import type { Operation, Result, Task } from "effection";
+import { Err, Ok, resource, spawn, withResolvers } from "effection";
 
 interface OpMap<T = unknown, TArgs extends unknown[] = []> {
   [key: string]: (...args: TArgs) => Operation<T>;
@@ -48,3 +48,120 @@ export function raceMap<T>(opMap: OpMap): Operation<{
     yield* provide(resultMap);
   });
 }
+
+/**
+ * The outcome of {@link raceWinner}: the key of the winning operation
+ * together with the value it returned, discriminated by key.
+ */
+export type RaceWinner<M extends Record<string, () => Operation<unknown>>> = {
+  [K in keyof M & string]: {
+    key: K;
+    value: M[K] extends () => Operation<infer T> ? T : never;
+  };
+}[keyof M & string];
+
+export interface RaceWinnerOptions {
+  /**
+   * - `"first"` — the first operation to settle wins, even if it fails
+   * - `"any"` — the first operation to succeed wins, and the race only
+   *   fails once every operation has failed
+   *
+   * Defaults to `"first"`.
+   */
+  mode?: "first" | "any";
+}
+
+/**
+ * Race a map of operations and report which one won. Once there is a
+ * winner, the other operations are halted.
+ *
+ * In `"any"` mode, failures are ignored until every operation has failed,
+ * and then the race throws an `AggregateError` whose `errors` are the
+ * failures in the order of `operations`, and whose message lists the
+ * failure of each key.
+ *
+ * @example
+ * ```ts
+ * import { raceWinner, request } from "@effectionx/fx";
+ *
+ * function* run() {
+ *   const fastest = yield* raceWinner(
+ *     {
+ *       us: () => request("https://us.mirror.com/pkg"),
+ *       eu: () => request("https://eu.mirror.com/pkg"),
+ *     },
+ *     { mode: "any" },
+ *   );
+ *   console.log(`${fastest.key} answered with ${fastest.value.status}`);
+ * }
+ * ```
+ */
+export function raceWinner<M extends Record<string, () => Operation<unknown>>>(
+  operations: M,
+  options: RaceWinnerOptions = {},
+): Operation<RaceWinner<M>> {
+  const { mode = "first" } = options;
+  const keys = Object.keys(operations) as (keyof M & string)[];
+
+  return {
+    *[Symbol.iterator]() {
+      if (keys.length === 0) {
+        throw new Error("raceWinner() needs at least one operation");
+      }
+
+      // The race runs in its own task so that the losers are halted as
+      // soon as it returns. Its outcome is returned rather than thrown so
+      // that a failure reaches the caller instead of crashing the scope
+      // that owns the task.
+      const race = yield* spawn(function* (): Operation<Result<RaceWinner<M>>> {
+        const winner = withResolvers<RaceWinner<M>>();
+        const failures = new Map<string, unknown>();
+
+        for (const key of keys) {
+          yield* spawn(function* () {
+            try {
+              const value = yield* operations[key]();
+              winner.resolve({ key, value } as RaceWinner<M>);
+            } catch (error) {
+              if (mode === "first") {
+                winner.reject(error as Error);
+                return;
+              }
+              failures.set(key, error);
+              if (failures.size === keys.length) {
+                winner.reject(aggregate(keys, failures));
+              }
+            }
+          });
+        }
+
+        try {
+          return Ok(yield* winner.operation);
+        } catch (error) {
+          return Err(error as Error);
+        }
+      });
+
+      const result = yield* race;
+      if (result.ok) {
+        return result.value;
+      }
+      throw result.error;
+    },
+  };
+}
+
+function aggregate(
+  keys: string[],
+  failures: Map<string, unknown>,
+): AggregateError {
+  const errors = keys.map((key) => failures.get(key));
+  const reasons = keys.map((key) => {
+    const error = failures.get(key);
+    return `${key}: ${error instanceof Error ? error.message : String(error)}`;
+  });
+  return new AggregateError(
+    errors,
+    `every operation of the race failed (${reasons.join("; ")})`,
+  );
+}
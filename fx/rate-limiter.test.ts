@@ -0,0 +1,121 @@
+import { describe, it } from "@effectionx/vitest";
+import { type Operation, sleep, spawn } from "effection";
+import { expect } from "expect";
+
+import { useRateLimiter } from "./rate-limiter.ts";
+
+describe("useRateLimiter()", () => {
+  it("lets a burst through right away", function* () {
+    const limiter = yield* useRateLimiter({
+      tokens: 1,
+      interval: 60_000,
+      burst: 3,
+    });
+
+    const start = Date.now();
+    yield* limiter.acquire();
+    yield* limiter.acquire(2);
+
+    expect(Date.now() - start).toBeLessThan(50);
+    expect(limiter.available).toBeLessThan(1);
+  });
+
+  it("waits for the bucket to refill", function* () {
+    const limiter = yield* useRateLimiter({ tokens: 1, interval: 30 });
+
+    yield* limiter.acquire();
+    const start = Date.now();
+    yield* limiter.acquire();
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(25);
+  });
+
+  it("serves callers in the order they called", function* () {
+    const limiter = yield* useRateLimiter({ tokens: 1, interval: 5 });
+    const order: string[] = [];
+
+    yield* limiter.acquire();
+    const tasks = [];
+    for (const name of ["a", "b", "c"]) {
+      tasks.push(
+        yield* spawn(function* () {
+          yield* limiter.acquire();
+          order.push(name);
+        }),
+      );
+    }
+    for (const task of tasks) {
+      yield* task;
+    }
+
+    expect(order).toEqual(["a", "b", "c"]);
+  });
+
+  it("removes a halted caller from the queue", function* () {
+    const limiter = yield* useRateLimiter({ tokens: 1, interval: 30 });
+    const acquired: string[] = [];
+
+    yield* limiter.acquire();
+    const first = yield* spawn(function* () {
+      yield* limiter.acquire();
+      acquired.push("first");
+    });
+    const second = yield* spawn(function* () {
+      yield* limiter.acquire();
+      acquired.push("second");
+    });
+    yield* sleep(0);
+    yield* first.halt();
+    yield* second;
+
+    expect(acquired).toEqual(["second"]);
+  });
+
+  it("rejects a weight larger than the bucket", function* () {
+    const limiter = yield* useRateLimiter({ tokens: 2, interval: 1000 });
+
+    let error: unknown;
+    try {
+      yield* limiter.acquire(3);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(RangeError);
+    expect(limiter.available).toEqual(2);
+  });
+
+  it("rejects weights that are not positive numbers", function* () {
+    const limiter = yield* useRateLimiter({ tokens: 2, interval: 1000 });
+
+    for (const weight of [0, -1, Number.NaN, Number.POSITIVE_INFINITY]) {
+      let error: unknown;
+      try {
+        yield* limiter.acquire(weight);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(RangeError);
+    }
+    expect(limiter.available).toEqual(2);
+  });
+
+  it("acquires tokens before each call as middleware", function* () {
+    const limiter = yield* useRateLimiter({
+      tokens: 1,
+      interval: 60_000,
+      burst: 2,
+    });
+    const middleware = limiter.middleware(2);
+
+    const value = yield* middleware(
+      ["hi"],
+      function* (text: string): Operation<string> {
+        return text.toUpperCase();
+      },
+    );
+
+    expect(value).toEqual("HI");
+    expect(limiter.available).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,155 @@
+import type { Operation } from "effection";
+import { resource, sleep, withResolvers } from "effection";
+
+export interface RateLimiterOptions {
+  /**
+   * How many tokens are added to the bucket every `interval`.
+   */
+  tokens: number;
+  /**
+   * The length of time that `tokens` are added over, in milliseconds. Tokens
+   * are added continuously, not all at once at the end of it.
+   */
+  interval: number;
+  /**
+   * The most tokens the bucket can hold, which is the largest burst of calls
+   * that can go through at once after a quiet period. The bucket starts
+   * full. Defaults to `tokens`.
+   */
+  burst?: number;
+}
+
+export interface RateLimiter {
+  /**
+   * Take `weight` tokens from the bucket, waiting until there are enough.
+   * Callers are served in the order they called. If the waiting task is
+   * halted, it leaves the queue without taking any tokens.
+   *
+   * Throws a `RangeError` if `weight` is not a positive number, or is more
+   * than the bucket can hold.
+   */
+  acquire(weight?: number): Operation<void>;
+  /**
+   * Middleware that acquires `weight` tokens before each call goes through,
+   * for use with the `around()` of an Api.
+   */
+  middleware(
+    weight?: number,
+  ): <TArgs extends unknown[], TReturn>(
+    args: TArgs,
+    next: (...args: TArgs) => Operation<TReturn>,
+  ) => Operation<TReturn>;
+  /**
+   * How many tokens are in the bucket right now.
+   */
+  readonly available: number;
+}
+
+type Ticket = ReturnType<typeof withResolvers<void>>;
+
+/**
+ * Create a token bucket that limits how fast calls are made. Each call takes
+ * tokens from the bucket, and the bucket refills at `tokens` per `interval`
+ * up to `burst`.
+ *
+ * @example
+ * ```ts
+ * import { useRateLimiter } from "@effectionx/fx";
+ *
+ * function* run() {
+ *   const limiter = yield* useRateLimiter({ tokens: 10, interval: 1000 });
+ *
+ *   yield* limiter.acquire();
+ *   const response = yield* request("https://api.com");
+ * }
+ * ```
+ *
+ * It can also limit every call made through an Api:
+ *
+ * @example
+ * ```ts
+ * import { useRateLimiter } from "@effectionx/fx";
+ * import { SearchApi } from "./search-api.ts";
+ *
+ * function* run() {
+ *   const limiter = yield* useRateLimiter({ tokens: 10, interval: 1000 });
+ *   yield* SearchApi.around({ search: limiter.middleware() });
+ * }
+ * ```
+ */
+export function useRateLimiter(
+  options: RateLimiterOptions,
+): Operation<RateLimiter> {
+  const { tokens, interval, burst = tokens } = options;
+  if (!(tokens > 0) || !(interval > 0) || !(burst > 0)) {
+    throw new RangeError(
+      `rate limiter needs positive tokens, interval and burst, but got ${tokens}, ${interval} and ${burst}`,
+    );
+  }
+
+  return resource(function* (provide) {
+    const queue: Ticket[] = [];
+    let available = burst;
+    let refilled = Date.now();
+
+    function refill(): void {
+      const now = Date.now();
+      available = Math.min(
+        burst,
+        available + ((now - refilled) * tokens) / interval,
+      );
+      refilled = now;
+    }
+
+    function leave(ticket: Ticket): void {
+      const index = queue.indexOf(ticket);
+      queue.splice(index, 1);
+      if (index === 0) {
+        queue[0]?.resolve();
+      }
+    }
+
+    const limiter: RateLimiter = {
+      *acquire(weight = 1) {
+        if (!Number.isFinite(weight) || weight <= 0) {
+          throw new RangeError(
+            `cannot acquire ${weight} tokens, only a positive number`,
+          );
+        }
+        if (weight > burst) {
+          throw new RangeError(
+            `cannot acquire ${weight} tokens from a bucket that holds ${burst}`,
+          );
+        }
+        const ticket = withResolvers<void>();
+        queue.push(ticket);
+        if (queue.length === 1) {
+          ticket.resolve();
+        }
+        try {
+          yield* ticket.operation;
+          refill();
+          while (available < weight) {
+            yield* sleep(Math.ceil(((weight - available) * interval) / tokens));
+            refill();
+          }
+          available -= weight;
+        } finally {
+          leave(ticket);
+        }
+      },
+      middleware(weight) {
+        return function* (args, next) {
+          yield* limiter.acquire(weight);
+          return yield* next(...args);
+        };
+      },
+      get available() {
+        refill();
+        return available;
+      },
+    };
+
+    yield* provide(limiter);
+  });
+}
@@ -0,0 +1,91 @@
+import { describe, it } from "@effectionx/vitest";
+import { Err, Ok, sleep } from "effection";
+import type { Operation, Result } from "effection";
+import { expect } from "expect";
+
+import { parallel } from "./parallel.ts";
+import {
+  allSettled,
+  collectOk,
+  mapErr,
+  mapOk,
+  partition,
+  unwrapOr,
+} from "./result.ts";
+
+const boom = new Error("boom");
+const bang = new Error("bang");
+
+describe("result helpers", () => {
+  it("collects the outcome of every operation with allSettled", function* () {
+    const results = yield* allSettled([
+      function* (): Operation<number> {
+        yield* sleep(0);
+        return 1;
+      },
+      function* (): Operation<number> {
+        throw boom;
+      },
+    ]);
+
+    expect(results).toEqual([Ok(1), Err(boom)]);
+  });
+
+  it("splits values from errors with partition", function* () {
+    const results: Result<number>[] = [Ok(1), Err(boom), Ok(2), Err(bang)];
+
+    expect(partition(results)).toEqual({
+      values: [1, 2],
+      errors: [boom, bang],
+    });
+  });
+
+  it("returns every value with collectOk", function* () {
+    const task = yield* parallel([
+      function* () {
+        return "a";
+      },
+      function* () {
+        return "b";
+      },
+    ]);
+
+    expect(collectOk(yield* task)).toEqual(["a", "b"]);
+  });
+
+  it("throws every error at once with collectOk", function* () {
+    let error: unknown;
+    try {
+      collectOk([Ok(1), Err(boom), Err(bang)]);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(AggregateError);
+    expect((error as AggregateError).errors).toEqual([boom, bang]);
+    expect((error as AggregateError).message).toEqual(
+      "2 of 3 results failed (boom; bang)",
+    );
+  });
+
+  it("transforms values with mapOk", function* () {
+    expect(mapOk(Ok(2), (value) => value * 10)).toEqual(Ok(20));
+    expect(mapOk(Err<number>(boom), (value) => value * 10)).toEqual(Err(boom));
+  });
+
+  it("transforms errors with mapErr", function* () {
+    const wrap = (error: Error) => new Error("wrapped", { cause: error });
+
+    expect(mapErr(Ok(2), wrap)).toEqual(Ok(2));
+    const mapped = mapErr(Err(boom), wrap);
+    expect(mapped.ok).toEqual(false);
+    if (!mapped.ok) {
+      expect(mapped.error.cause).toBe(boom);
+    }
+  });
+
+  it("falls back to a default with unwrapOr", function* () {
+    expect(unwrapOr(Ok(2), 0)).toEqual(2);
+    expect(unwrapOr(Err<number>(boom), 0)).toEqual(0);
+  });
+});
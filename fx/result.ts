@@ -0,0 +1,97 @@
+import type { Operation, Result } from "effection";
+import { Err, Ok } from "effection";
+
+import { parallel } from "./parallel.ts";
+
+/**
+ * Run every operation at once and wait for all of them, collecting their
+ * outcomes as {@link Result}s in the order of `operations`. It never throws
+ * because one of them failed.
+ *
+ * @example
+ * ```ts
+ * import { allSettled, partition } from "@effectionx/fx";
+ *
+ * function* run() {
+ *   const results = yield* allSettled([fetchUser, fetchPosts]);
+ *   const { values, errors } = partition(results);
+ * }
+ * ```
+ */
+export function* allSettled<T>(
+  operations: (() => Operation<T>)[],
+): Operation<Result<T>[]> {
+  return yield* yield* parallel(operations);
+}
+
+/**
+ * Split results into the values of those that succeeded and the errors of
+ * those that failed, each in their original order.
+ */
+export function partition<T>(results: Result<T>[]): {
+  values: T[];
+  errors: Error[];
+} {
+  const values: T[] = [];
+  const errors: Error[] = [];
+  for (const result of results) {
+    if (result.ok) {
+      values.push(result.value);
+    } else {
+      errors.push(result.error);
+    }
+  }
+  return { values, errors };
+}
+
+/**
+ * Get the values of results that all succeeded. If any of them failed,
+ * throw an `AggregateError` with every error instead.
+ *
+ * @example
+ * ```ts
+ * import { collectOk, parallel } from "@effectionx/fx";
+ *
+ * function* run() {
+ *   const task = yield* parallel([job1, job2]);
+ *   const [first, second] = collectOk(yield* task);
+ * }
+ * ```
+ */
+export function collectOk<T>(results: Result<T>[]): T[] {
+  const { values, errors } = partition(results);
+  if (errors.length > 0) {
+    const reasons = errors.map((error) => error.message).join("; ");
+    throw new AggregateError(
+      errors,
+      `${errors.length} of ${results.length} results failed (${reasons})`,
+    );
+  }
+  return values;
+}
+
+/**
+ * Transform the value of a successful result. Failed results are returned
+ * as they are.
+ */
+export function mapOk<T, U>(result: Result<T>, fn: (value: T) => U): Result<U> {
+  return result.ok ? Ok(fn(result.value)) : result;
+}
+
+/**
+ * Transform the error of a failed result. Successful results are returned
+ * as they are.
+ */
+export function mapErr<T>(
+  result: Result<T>,
+  fn: (error: Error) => Error,
+): Result<T> {
+  return result.ok ? result : Err(fn(result.error));
+}
+
+/**
+ * Get the value of a successful result, or `fallback` if it failed.
+ */
+export function unwrapOr<T>(result: Result<T>, fallback: T): T {
+  return result.ok ? result.value : fallback;
+}
@@ -0,0 +1,182 @@
+import { describe, it } from "@effectionx/vitest";
+import { Err, Ok, spawn, withResolvers } from "effection";
+import type { Operation } from "effection";
+import { expect } from "expect";
+
+import {
+  type RetryAttempt,
+  backoff,
+  createRetrySchedule,
+  retry,
+} from "./retry.ts";
+import { safe } from "./safe.ts";
+
+function failing(times: number, log: number[] = []) {
+  let calls = 0;
+  return function* (): Operation<string> {
+    calls += 1;
+    log.push(calls);
+    if (calls <= times) {
+      throw new Error(`failure ${calls}`);
+    }
+    return `success after ${calls}`;
+  };
+}
+
+describe("retry()", () => {
+  it("returns the value of the first successful attempt", function* () {
+    const log: number[] = [];
+    const value = yield* retry(failing(2, log), {
+      backoff: backoff.constant(0),
+    });
+
+    expect(value).toEqual("success after 3");
+    expect(log).toEqual([1, 2, 3]);
+  });
+
+  it("throws the last error after maxAttempts", function* () {
+    const log: number[] = [];
+    let error: unknown;
+    try {
+      yield* retry(failing(5, log), {
+        backoff: backoff.constant(0),
+        maxAttempts: 2,
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect((error as Error).message).toEqual("failure 2");
+    expect(log).toEqual([1, 2]);
+  });
+
+  it("does not retry errors that are not retryable", function* () {
+    const log: number[] = [];
+    let error: unknown;
+    try {
+      yield* retry(failing(5, log), {
+        backoff: backoff.constant(0),
+        maxAttempts: 10,
+        retryable: (_error, attempt) => attempt < 3,
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect((error as Error).message).toEqual("failure 3");
+    expect(log).toEqual([1, 2, 3]);
+  });
+
+  it("gives up when the next retry would start after maxElapsed", function* () {
+    const log: number[] = [];
+    let error: unknown;
+    try {
+      yield* retry(failing(5, log), {
+        backoff: backoff.constant(1000),
+        maxAttempts: 10,
+        maxElapsed: 500,
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    expect((error as Error).message).toEqual("failure 1");
+    expect(log).toEqual([1]);
+  });
+
+  it("reports each failed attempt on the attempts channel", function* () {
+    const operation = retry(failing(2), {
+      backoff: backoff.exponential({ initial: 1 }),
+    });
+    const subscription = yield* operation.attempts;
+    const done = withResolvers<RetryAttempt[]>();
+
+    yield* spawn(function* () {
+      const attempts: RetryAttempt[] = [];
+      let next = yield* subscription.next();
+      while (!next.done) {
+        attempts.push(next.value);
+        next = yield* subscription.next();
+      }
+      done.resolve(attempts);
+    });
+
+    yield* operation;
+
+    const attempts = yield* done.operation;
+    expect(attempts.map(({ attempt, delay }) => ({ attempt, delay }))).toEqual([
+      { attempt: 1, delay: 1 },
+      { attempt: 2, delay: 2 },
+    ]);
+    expect((attempts[0].error as Error).message).toEqual("failure 1");
+  });
+
+  it("returns a Result when wrapped in safe()", function* () {
+    const ok = yield* safe(() =>
+      retry(failing(1), { backoff: backoff.constant(0) }),
+    );
+    expect(ok).toEqual(Ok("success after 2"));
+
+    const err = yield* safe(() =>
+      retry(failing(5), { backoff: backoff.constant(0), maxAttempts: 1 }),
+    );
+    expect(err).toEqual(Err(new Error("failure 1")));
+  });
+});
+
+describe("createRetrySchedule()", () => {
+  it("gives the delay before each retry until the policy gives up", function* () {
+    const schedule = createRetrySchedule({
+      backoff: backoff.exponential({ initial: 10 }),
+      maxAttempts: 3,
+    });
+    const error = new Error("boom");
+
+    expect(schedule.fail(error)).toEqual({ attempt: 1, error, delay: 10 });
+    expect(schedule.fail(error)).toEqual({ attempt: 2, error, delay: 20 });
+    expect(schedule.fail(error)).toBeUndefined();
+  });
+
+  it("starts counting again when reset", function* () {
+    const schedule = createRetrySchedule({
+      backoff: backoff.exponential({ initial: 10 }),
+      maxAttempts: 2,
+    });
+
+    expect(schedule.fail(new Error("first"))).toMatchObject({ attempt: 1 });
+    schedule.reset();
+    expect(schedule.fail(new Error("second"))).toMatchObject({
+      attempt: 1,
+      delay: 10,
+    });
+  });
+});
+
+describe("backoff", () => {
+  it("waits the same delay with constant", function* () {
+    const delay = backoff.constant(50);
+    expect([delay(1, 0), delay(2, 50), delay(3, 50)]).toEqual([50, 50, 50]);
+  });
+
+  it("multiplies the delay with exponential, up to max", function* () {
+    const delay = backoff.exponential({ initial: 100, factor: 3, max: 1000 });
+    expect([1, 2, 3, 4].map((attempt) => delay(attempt, 0))).toEqual([
+      100, 300, 900, 1000,
+    ]);
+  });
+
+  it("picks a delay between initial and three times the previous with decorrelatedJitter", function* () {
+    const lowest = backoff.decorrelatedJitter({ initial: 10, random: () => 0 });
+    const highest = backoff.decorrelatedJitter({
+      initial: 10,
+      max: 100,
+      random: () => 1,
+    });
+
+    expect(lowest(1, 0)).toEqual(10);
+    expect(lowest(2, 40)).toEqual(10);
+    expect(highest(1, 0)).toEqual(10);
+    expect(highest(2, 20)).toEqual(60);
+    expect(highest(3, 60)).toEqual(100);
+  });
+});
@@ -0,0 +1,249 @@
+import type { Channel, Operation } from "effection";
+import { createChannel, sleep } from "effection";
+
+/**
+ * Decides how long to wait before the next attempt. It receives the number
+ * of the attempt that just failed, starting at 1, and the delay that was
+ * used before it, which is 0 after the first attempt.
+ */
+export type Backoff = (attempt: number, previous: number) => number;
+
+/**
+ * Backoff policies to use with {@link retry}.
+ */
+export const backoff = {
+  /**
+   * Wait the same `delay` before every retry.
+   */
+  constant(delay: number): Backoff {
+    return () => delay;
+  },
+
+  /**
+   * Wait `initial` before the first retry, and `factor` times longer before
+   * each one after it, up to `max`.
+   */
+  exponential(options: {
+    initial: number;
+    factor?: number;
+    max?: number;
+  }): Backoff {
+    const { initial, factor = 2, max = Number.POSITIVE_INFINITY } = options;
+    return (attempt) => Math.min(max, initial * factor ** (attempt - 1));
+  },
+
+  /**
+   * Wait a random delay between `initial` and three times the previous
+   * delay, up to `max`. Spreads out retries from many callers that failed
+   * at the same time, while still backing off.
+   *
+   * @see https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+   */
+  decorrelatedJitter(options: {
+    initial: number;
+    max?: number;
+    random?: () => number;
+  }): Backoff {
+    const {
+      initial,
+      max = Number.POSITIVE_INFINITY,
+      random = Math.random,
+    } = options;
+    return (_attempt, previous) => {
+      const upper = Math.max(initial, previous * 3);
+      return Math.min(max, initial + random() * (upper - initial));
+    };
+  },
+};
+
+export interface RetryPolicy {
+  /**
+   * How long to wait between attempts. Defaults to
+   * `backoff.exponential({ initial: 100 })`.
+   */
+  backoff?: Backoff;
+  /**
+   * The most attempts to make, including the first one. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /**
+   * The most milliseconds to spend, counted from the start of the first
+   * attempt. No retry is made that would begin after this much time has
+   * passed. Defaults to no limit.
+   */
+  maxElapsed?: number;
+  /**
+   * Whether an error is worth retrying. Errors it rejects are thrown right
+   * away. Defaults to retrying every error.
+   */
+  retryable?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * A failed attempt that is about to be retried.
+ */
+export interface RetryAttempt {
+  /** The number of the attempt that failed, starting at 1. */
+  attempt: number;
+  /** The error that the attempt failed with. */
+  error: unknown;
+  /** How long to wait, in milliseconds, before the next attempt. */
+  delay: number;
+}
+
+/**
+ * Keeps count of the failed attempts of something that is being retried,
+ * and decides as told by a {@link RetryPolicy} whether to try again, and
+ * after how long.
+ */
+export interface RetrySchedule {
+  /**
+   * Record a failed attempt. Returns the attempt with the delay to wait
+   * before the next one, or `undefined` if the policy gives up.
+   */
+  fail(error: unknown): RetryAttempt | undefined;
+  /**
+   * Forget the failed attempts and start counting again, with elapsed time
+   * counted from now.
+   */
+  reset(): void;
+}
+
+/**
+ * Create a {@link RetrySchedule} for `policy`, for retrying something that
+ * is not a single operation, such as a subscription. Elapsed time is
+ * counted from when the schedule is created or last reset.
+ *
+ * @example
+ * ```ts
+ * import { createRetrySchedule } from "@effectionx/fx";
+ * import { sleep } from "effection";
+ *
+ * function* run() {
+ *   const schedule = createRetrySchedule({ maxAttempts: 5 });
+ *   while (true) {
+ *     try {
+ *       const connection = yield* connect();
+ *       schedule.reset();
+ *       yield* serve(connection);
+ *     } catch (error) {
+ *       const next = schedule.fail(error);
+ *       if (!next) {
+ *         throw error;
+ *       }
+ *       yield* sleep(next.delay);
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export function createRetrySchedule(policy: RetryPolicy = {}): RetrySchedule {
+  const {
+    backoff: delayFor = backoff.exponential({ initial: 100 }),
+    maxAttempts = 3,
+    maxElapsed = Number.POSITIVE_INFINITY,
+    retryable = () => true,
+  } = policy;
+  let start = Date.now();
+  let attempt = 0;
+  let delay = 0;
+
+  return {
+    fail(error) {
+      attempt += 1;
+      delay = delayFor(attempt, delay);
+      if (
+        attempt >= maxAttempts ||
+        Date.now() - start + delay > maxElapsed ||
+        !retryable(error, attempt)
+      ) {
+        return undefined;
+      }
+      return { attempt, error, delay };
+    },
+    reset() {
+      start = Date.now();
+      attempt = 0;
+      delay = 0;
+    },
+  };
+}
+
+export interface Retry<T> extends Operation<T> {
+  /**
+   * Every failed attempt that is about to be retried. The channel closes
+   * when the operation returns or gives up.
+   */
+  attempts: Channel<RetryAttempt, void>;
+}
+
+/**
+ * Run `operation` until it succeeds, waiting between attempts as told by
+ * `policy`. When it gives up, the error of the last attempt is thrown.
+ *
+ * Wrap it in {@link safe} to get a `Result` instead of an error.
+ *
+ * @example
+ * ```ts
+ * import { backoff, retry } from "@effectionx/fx";
+ *
+ * function* run() {
+ *   const response = yield* retry(() => request("https://api.com"), {
+ *     backoff: backoff.exponential({ initial: 100, max: 5000 }),
+ *     maxAttempts: 5,
+ *     retryable: (error) => !(error instanceof TypeError),
+ *   });
+ * }
+ * ```
+ *
+ * Failed attempts can be observed on the `attempts` channel. Like any
+ * channel, it only delivers to subscriptions that exist when an attempt is
+ * sent, so subscribe before running the operation:
+ *
+ * @example
+ * ```ts
+ * function* run() {
+ *   const operation = retry(() => request("https://api.com"));
+ *   const attempts = yield* operation.attempts;
+ *
+ *   yield* spawn(function* () {
+ *     let next = yield* attempts.next();
+ *     while (!next.done) {
+ *       const { attempt, error, delay } = next.value;
+ *       console.log(`attempt ${attempt} failed: ${error}, next in ${delay}ms`);
+ *       next = yield* attempts.next();
+ *     }
+ *   });
+ *
+ *   const result = yield* safe(() => operation);
+ * }
+ * ```
+ */
+export function retry<T>(
+  operation: () => Operation<T>,
+  policy: RetryPolicy = {},
+): Retry<T> {
+  const attempts = createChannel<RetryAttempt, void>();
+
+  return {
+    attempts,
+    *[Symbol.iterator]() {
+      const schedule = createRetrySchedule(policy);
+      while (true) {
+        try {
+          const value = yield* operation();
+          yield* attempts.close();
+          return value;
+        } catch (error) {
+          const next = schedule.fail(error);
+          if (!next) {
+            yield* attempts.close();
+            throw error;
+          }
+          yield* attempts.send(next);
+          yield* sleep(next.delay);
+        }
+      }
+    },
+  };
+}
@@ -83,7 +83,7 @@ describe("JSONLStore", () => {
         items.push(item);
         yield* each.next();
       }
-      expect(items).toEqual([1, 2, 3]);
+      expect(items).toStrictEqual([1, 2, 3]);
     });
   });
 
@@ -136,8 +136,8 @@ export class JSONLStore implements Store {
 
         while (true) {
           const { done, value } = yield* call(() => reader.read());
-          yield* channel.send(value as T);
           if (done) break;
+          yield* channel.send(value as T);
         }
       });
 
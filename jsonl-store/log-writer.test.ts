@@ -0,0 +1,41 @@
+import { mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { beforeEach, describe, it } from "@effectionx/vitest";
+import { all, until } from "effection";
+import { expect } from "expect";
+
+import { JSONLStore } from "./jsonl.ts";
+import { createLogWriter } from "./log-writer.ts";
+import type { Store } from "./types.ts";
+
+describe("createLogWriter", () => {
+  let store: Store;
+  let tmpDir: string;
+
+  beforeEach(function* () {
+    tmpDir = yield* until(mkdtemp(join(tmpdir(), "jsonl-log-test-")));
+    store = JSONLStore.from({ location: tmpDir });
+  });
+
+  it("replaces the old log with the first write", function* () {
+    yield* store.write("log", "old");
+
+    const log = createLogWriter(store, "log");
+    yield* log.write(1);
+    yield* log.write(2);
+
+    expect(yield* until(readFile(join(tmpDir, "log.jsonl"), "utf-8"))).toBe(
+      "1\n2\n",
+    );
+  });
+
+  it("keeps values in the order they were written", function* () {
+    const log = createLogWriter(store, "log");
+    yield* all([log.write(1), log.write(2), log.write(3)]);
+
+    expect(yield* until(readFile(join(tmpDir, "log.jsonl"), "utf-8"))).toBe(
+      "1\n2\n3\n",
+    );
+  });
+});
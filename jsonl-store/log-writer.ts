@@ -0,0 +1,56 @@
+import { type Operation, withResolvers } from "effection";
+import type { Store } from "./types.ts";
+
+/**
+ * Writes values one after another under a single key of a {@link Store}.
+ */
+export interface LogWriter {
+  /**
+   * Write `data` after every value written before it. The first value
+   * replaces whatever was stored under the key, and the rest are appended.
+   */
+  write(data: unknown): Operation<void>;
+}
+
+/**
+ * Create a writer that keeps a log of values under `key`, such as the calls
+ * or spans captured while a program runs.
+ *
+ * Writes are chained, so that values land in the order `write` was called
+ * even when several tasks write at once, and so that the first write has
+ * replaced any old log before anything is appended to it.
+ *
+ * @example
+ * ```ts
+ * import { createLogWriter, useStore } from "@effectionx/jsonl-store";
+ *
+ * let log = createLogWriter(yield* useStore(), "events");
+ * yield* log.write({ type: "started" }); // replaces any old events
+ * yield* log.write({ type: "stopped" }); // appended
+ * ```
+ */
+export function createLogWriter(store: Store, key: string): LogWriter {
+  let created = false;
+  let tail: Operation<void> | undefined;
+
+  return {
+    *write(data) {
+      let previous = tail;
+      let written = withResolvers<void>();
+      tail = written.operation;
+      try {
+        if (previous) {
+          yield* previous;
+        }
+        if (created) {
+          yield* store.append(key, data);
+        } else {
+          yield* store.write(key, data);
+          created = true;
+        }
+      } finally {
+        written.resolve();
+      }
+    },
+  };
+}
@@ -1,3 +1,4 @@
 export { StoreContext, useStore } from "./context.ts";
 export { JSONLStore } from "./jsonl.ts";
+export { type LogWriter, createLogWriter } from "./log-writer.ts";
 export * from "./types.ts";
@@ -1 +1,11 @@
 export { type Middleware, combine } from "./middleware.ts";
+export {
+  type OperationMiddleware,
+  type TapHooks,
+  catchError,
+  compose,
+  guard,
+  intercept,
+  mapResult,
+  tap,
+} from "./operations.ts";
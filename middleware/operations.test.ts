@@ -0,0 +1,209 @@
+import { strict as assert } from "node:assert";
+import { describe, it } from "@effectionx/vitest";
+import { type Operation, spawn, suspend, withResolvers } from "effection";
+import {
+  catchError,
+  combine,
+  compose,
+  guard,
+  intercept,
+  mapResult,
+  tap,
+} from "./mod.ts";
+
+function* upper(text: string): Operation<string> {
+  return text.toUpperCase();
+}
+
+function* fail(text: string): Operation<string> {
+  throw new Error(`failed ${text}`);
+}
+
+describe("tap", () => {
+  it("runs hooks around a call that returns", function* () {
+    const log: string[] = [];
+    const stack = tap<[string], string>({
+      *before([text]) {
+        log.push(`before ${text}`);
+      },
+      *after(value) {
+        log.push(`after ${value}`);
+      },
+      *onError() {
+        log.push("error");
+      },
+      finally() {
+        log.push("finally");
+      },
+    });
+
+    assert.equal(yield* stack(["hi"], upper), "HI");
+    assert.deepEqual(log, ["before hi", "after HI", "finally"]);
+  });
+
+  it("runs hooks around a call that throws and rethrows", function* () {
+    const log: string[] = [];
+    const stack = tap<[string], string>({
+      *after() {
+        log.push("after");
+      },
+      *onError(error) {
+        log.push(`error ${(error as Error).message}`);
+      },
+      finally() {
+        log.push("finally");
+      },
+    });
+
+    yield* assertRejects(stack(["hi"], fail), /failed hi/);
+    assert.deepEqual(log, ["error failed hi", "finally"]);
+  });
+
+  it("runs finally when the call is halted", function* () {
+    const log: string[] = [];
+    const started = withResolvers<void>();
+    const stack = tap<[], void>({
+      *after() {
+        log.push("after");
+      },
+      *onError() {
+        log.push("error");
+      },
+      finally() {
+        log.push("finally");
+      },
+    });
+
+    const task = yield* spawn(() =>
+      stack([], function* () {
+        started.resolve();
+        yield* suspend();
+      }),
+    );
+    yield* started.operation;
+    yield* task.halt();
+
+    assert.deepEqual(log, ["finally"]);
+  });
+
+  it("prevents the call when before throws", function* () {
+    const log: string[] = [];
+    const stack = tap<[string], string>({
+      *before() {
+        throw new Error("not now");
+      },
+    });
+
+    yield* assertRejects(
+      stack(["hi"], function* (text) {
+        log.push("called");
+        return text;
+      }),
+      /not now/,
+    );
+    assert.deepEqual(log, []);
+  });
+});
+
+describe("intercept", () => {
+  it("replaces the arguments of the call", function* () {
+    const stack = intercept<[string], string>(function* (text) {
+      return [`${text}!`];
+    });
+
+    assert.equal(yield* stack(["hi"], upper), "HI!");
+  });
+});
+
+describe("mapResult", () => {
+  it("replaces the value returned by the call", function* () {
+    const stack = mapResult<[string], string>(function* (value, [text]) {
+      return `${text} -> ${value}`;
+    });
+
+    assert.equal(yield* stack(["hi"], upper), "hi -> HI");
+  });
+});
+
+describe("catchError", () => {
+  it("recovers from errors with a value", function* () {
+    const stack = catchError<[string], string>(function* (error, [text]) {
+      return `${text}: ${(error as Error).message}`;
+    });
+
+    assert.equal(yield* stack(["hi"], fail), "hi: failed hi");
+    assert.equal(yield* stack(["hi"], upper), "HI");
+  });
+
+  it("fails with the error thrown by the handler", function* () {
+    const stack = catchError<[string], string>(function* () {
+      throw new Error("replaced");
+    });
+
+    yield* assertRejects(stack(["hi"], fail), /replaced/);
+  });
+});
+
+describe("guard", () => {
+  it("only lets approved calls through", function* () {
+    const stack = guard<[string], string>(
+      function* (text) {
+        return text.length > 0;
+      },
+      () => new RangeError("empty"),
+    );
+
+    assert.equal(yield* stack(["hi"], upper), "HI");
+    yield* assertRejects(stack([""], upper), /empty/);
+  });
+});
+
+describe("compose", () => {
+  it("wraps a handler keeping its signature", function* () {
+    const log: string[] = [];
+    const shout = compose(
+      function* (text: string, times: number): Operation<string> {
+        return text.toUpperCase().repeat(times);
+      },
+      tap({
+        *before([text]) {
+          log.push(`before ${text}`);
+        },
+      }),
+      mapResult(function* (value) {
+        return `${value}!`;
+      }),
+    );
+
+    assert.equal(yield* shout("hi", 2), "HIHI!");
+    assert.deepEqual(log, ["before hi"]);
+  });
+
+  it("runs middleware in the same order as combine", function* () {
+    const log: string[] = [];
+    const trace = (name: string) =>
+      tap<[string], string>({
+        *before() {
+          log.push(name);
+        },
+      });
+
+    yield* compose(upper, trace("outer"), trace("inner"))("hi");
+    yield* combine([trace("outer"), trace("inner")])(["hi"], upper);
+
+    assert.deepEqual(log, ["outer", "inner", "outer", "inner"]);
+  });
+});
+
+function* assertRejects(
+  operation: Operation<unknown>,
+  pattern: RegExp,
+): Operation<void> {
+  try {
+    yield* operation;
+  } catch (error) {
+    assert.match((error as Error).message, pattern);
+    return;
+  }
+  assert.fail("expected operation to throw");
+}
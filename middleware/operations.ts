@@ -0,0 +1,204 @@
+import type { Operation } from "effection";
+import { type Middleware, combine } from "./middleware.ts";
+
+/**
+ * A middleware around a function that returns an {@link Operation}, such as
+ * a field of an Api created with `@effectionx/context-api`.
+ */
+export type OperationMiddleware<TArgs extends unknown[], TReturn> = Middleware<
+  TArgs,
+  Operation<TReturn>
+>;
+
+/**
+ * Hooks run by {@link tap} around each call.
+ */
+export interface TapHooks<TArgs extends unknown[], TReturn> {
+  /** Runs before the call. Throwing here prevents the call. */
+  before?(args: TArgs): Operation<void>;
+  /** Runs after the call returns, with the value it returned. */
+  after?(value: TReturn, args: TArgs): Operation<void>;
+  /** Runs after the call throws, before the error is rethrown. */
+  onError?(error: unknown, args: TArgs): Operation<void>;
+  /**
+   * Runs once the call is over, whether it returned, threw or was halted.
+   * It is synchronous because it may run while the call is being halted;
+   * teardown that needs to `yield*` belongs in `ensure()`.
+   */
+  finally?(args: TArgs): void;
+}
+
+/**
+ * Observe calls without changing their arguments or results.
+ *
+ * @example
+ * ```ts
+ * import { tap } from "@effectionx/middleware";
+ *
+ * const timing = tap<[string], string>({
+ *   *before([url]) {
+ *     console.log("fetching", url);
+ *   },
+ *   *onError(error) {
+ *     console.error("failed", error);
+ *   },
+ * });
+ * ```
+ */
+export function tap<TArgs extends unknown[], TReturn>(
+  hooks: TapHooks<TArgs, TReturn>,
+): OperationMiddleware<TArgs, TReturn> {
+  return function* (args, next) {
+    try {
+      if (hooks.before) {
+        yield* hooks.before(args);
+      }
+      let value: TReturn;
+      try {
+        value = yield* next(...args);
+      } catch (error) {
+        if (hooks.onError) {
+          yield* hooks.onError(error, args);
+        }
+        throw error;
+      }
+      if (hooks.after) {
+        yield* hooks.after(value, args);
+      }
+      return value;
+    } finally {
+      hooks.finally?.(args);
+    }
+  };
+}
+
+/**
+ * Replace the arguments of each call before it continues down the chain.
+ *
+ * @example
+ * ```ts
+ * import { intercept } from "@effectionx/middleware";
+ *
+ * const absolute = intercept<[string], string>(function* (path) {
+ *   return [resolve(path)];
+ * });
+ * ```
+ */
+export function intercept<TArgs extends unknown[], TReturn>(
+  transform: (...args: TArgs) => Operation<TArgs>,
+): OperationMiddleware<TArgs, TReturn> {
+  return function* (args, next) {
+    return yield* next(...(yield* transform(...args)));
+  };
+}
+
+/**
+ * Replace the value returned by each call.
+ *
+ * @example
+ * ```ts
+ * import { mapResult } from "@effectionx/middleware";
+ *
+ * const trimmed = mapResult<[string], string>(function* (text) {
+ *   return text.trim();
+ * });
+ * ```
+ */
+export function mapResult<TArgs extends unknown[], TReturn>(
+  fn: (value: TReturn, args: TArgs) => Operation<TReturn>,
+): OperationMiddleware<TArgs, TReturn> {
+  return function* (args, next) {
+    return yield* fn(yield* next(...args), args);
+  };
+}
+
+/**
+ * Handle errors thrown by a call. The handler can recover by returning a
+ * value in place of the call, or throw to fail the call with another error.
+ * Halting a call is not an error, so the handler never runs for it.
+ *
+ * @example
+ * ```ts
+ * import { catchError } from "@effectionx/middleware";
+ *
+ * const missingIsEmpty = catchError<[string], string>(function* (error) {
+ *   if (isNotFound(error)) {
+ *     return "";
+ *   }
+ *   throw error;
+ * });
+ * ```
+ */
+export function catchError<TArgs extends unknown[], TReturn>(
+  handler: (error: unknown, args: TArgs) => Operation<TReturn>,
+): OperationMiddleware<TArgs, TReturn> {
+  return function* (args, next) {
+    try {
+      return yield* next(...args);
+    } catch (error) {
+      return yield* handler(error, args);
+    }
+  };
+}
+
+/**
+ * Only let calls through when `check` approves their arguments. Rejected
+ * calls fail with the error made by `reject`, and never reach the rest of
+ * the chain.
+ *
+ * @example
+ * ```ts
+ * import { guard } from "@effectionx/middleware";
+ *
+ * const inProject = guard<[string], string>(
+ *   function* (path) {
+ *     return path.startsWith(root);
+ *   },
+ *   (path) => new Error(`${path} is outside of ${root}`),
+ * );
+ * ```
+ */
+export function guard<TArgs extends unknown[], TReturn>(
+  check: (...args: TArgs) => Operation<boolean>,
+  reject: (...args: TArgs) => Error = () => new Error("call rejected by guard"),
+): OperationMiddleware<TArgs, TReturn> {
+  return function* (args, next) {
+    if (!(yield* check(...args))) {
+      throw reject(...args);
+    }
+    return yield* next(...args);
+  };
+}
+
+/**
+ * Wrap `handler` in a chain of middleware, producing a function with the
+ * same signature as `handler`. The types of the middleware are inferred from
+ * the handler, so helpers like {@link tap} need no type arguments.
+ *
+ * Middlewares run left-to-right, as with {@link combine}.
+ *
+ * @example
+ * ```ts
+ * import { compose, tap } from "@effectionx/middleware";
+ *
+ * const read = compose(
+ *   function* (path: string): Operation<string> {
+ *     return yield* readTextFile(path);
+ *   },
+ *   tap({
+ *     *before([path]) {
+ *       console.log("reading", path);
+ *     },
+ *   }),
+ * );
+ *
+ * yield* read("package.json");
+ * ```
+ */
+export function compose<TArgs extends unknown[], TReturn>(
+  handler: (...args: TArgs) => TReturn,
+  ...middlewares: Middleware<NoInfer<TArgs>, NoInfer<TReturn>>[]
+): (...args: TArgs) => TReturn {
+  let stack = combine(middlewares);
+  return (...args) => stack(args, handler);
+}
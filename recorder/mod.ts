@@ -0,0 +1 @@
+export * from "./recorder.ts";
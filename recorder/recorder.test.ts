@@ -0,0 +1,246 @@
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createApi } from "@effectionx/context-api";
+import { JSONLStore, type Store } from "@effectionx/jsonl-store";
+import { beforeEach, describe, it } from "@effectionx/vitest";
+import { type Operation, each, scoped, until } from "effection";
+import { expect } from "expect";
+
+import { type Recording, record, replay } from "./recorder.ts";
+
+function createMath(log: string[]) {
+  return createApi("recorder.math", {
+    *add(left: number, right: number): Operation<number> {
+      log.push(`add(${left}, ${right})`);
+      return left + right;
+    },
+    *divide(left: number, right: number): Operation<number> {
+      log.push(`divide(${left}, ${right})`);
+      if (right === 0) {
+        throw new RangeError("division by zero");
+      }
+      return left / right;
+    },
+    negate: (value: number) => {
+      log.push(`negate(${value})`);
+      return -value;
+    },
+    pi: 3.14,
+  });
+}
+
+function* readRecording(store: Store, key: string): Operation<Recording[]> {
+  let recordings: Recording[] = [];
+  for (let recording of yield* each(store.read<Recording>(key))) {
+    recordings.push(recording);
+    yield* each.next();
+  }
+  return recordings;
+}
+
+describe("recorder", () => {
+  let store: Store;
+
+  beforeEach(function* () {
+    let dir = yield* until(mkdtemp(join(tmpdir(), "recorder-test-")));
+    store = JSONLStore.from({ location: dir });
+  });
+
+  it("records every call with its result", function* () {
+    let log: string[] = [];
+    let math = createMath(log);
+
+    yield* scoped(function* () {
+      yield* record(math, { key: "math", store });
+      expect(yield* math.operations.add(1, 2)).toEqual(3);
+      expect(yield* math.operations.negate(5)).toEqual(-5);
+      expect(yield* math.operations.pi).toEqual(3.14);
+    });
+
+    let recordings = yield* readRecording(store, "math");
+    expect(recordings).toMatchObject([
+      { field: "add", args: [1, 2], ok: true, value: 3 },
+      { field: "negate", args: [5], ok: true, value: -5 },
+      { field: "pi", args: [], ok: true, value: 3.14 },
+    ]);
+    for (let recording of recordings) {
+      expect(typeof recording.startedAt).toEqual("number");
+      expect(recording.duration).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it("records errors and rethrows them", function* () {
+    let log: string[] = [];
+    let math = createMath(log);
+
+    let error: unknown;
+    yield* scoped(function* () {
+      yield* record(math, { key: "errors", store });
+      try {
+        yield* math.operations.divide(1, 0);
+      } catch (e) {
+        error = e;
+      }
+    });
+
+    expect(error).toBeInstanceOf(RangeError);
+    expect(yield* readRecording(store, "errors")).toMatchObject([
+      {
+        field: "divide",
+        args: [1, 0],
+        ok: false,
+        error: { name: "RangeError", message: "division by zero" },
+      },
+    ]);
+  });
+
+  it("replaces an earlier recording under the same key", function* () {
+    let log: string[] = [];
+    let math = createMath(log);
+
+    yield* scoped(function* () {
+      yield* record(math, { key: "math", store });
+      yield* math.operations.add(1, 2);
+    });
+
+    yield* scoped(function* () {
+      yield* record(math, { key: "math", store });
+      yield* math.operations.add(3, 4);
+    });
+
+    expect(yield* readRecording(store, "math")).toMatchObject([
+      { field: "add", args: [3, 4], value: 7 },
+    ]);
+  });
+
+  it("only records the requested fields", function* () {
+    let log: string[] = [];
+    let math = createMath(log);
+
+    yield* scoped(function* () {
+      yield* record(math, { key: "math", store, fields: ["negate"] });
+      yield* math.operations.add(1, 2);
+      yield* math.operations.negate(2);
+    });
+
+    expect(yield* readRecording(store, "math")).toMatchObject([
+      { field: "negate", args: [2] },
+    ]);
+  });
+
+  it("stops recording when removed", function* () {
+    let log: string[] = [];
+    let math = createMath(log);
+
+    yield* scoped(function* () {
+      let recorder = yield* record(math, { key: "math", store });
+      yield* math.operations.add(1, 2);
+      recorder.remove();
+      yield* math.operations.add(3, 4);
+    });
+
+    expect(yield* readRecording(store, "math")).toHaveLength(1);
+  });
+
+  it("replays recorded results without calling the handler", function* () {
+    let log: string[] = [];
+    let math = createMath(log);
+
+    yield* scoped(function* () {
+      yield* record(math, { key: "math", store });
+      yield* math.operations.add(1, 2);
+      yield* math.operations.negate(5);
+      yield* math.operations.pi;
+    });
+
+    log.length = 0;
+
+    yield* scoped(function* () {
+      yield* replay(math, { key: "math", store });
+      expect(yield* math.operations.negate(5)).toEqual(-5);
+      expect(yield* math.operations.add(1, 2)).toEqual(3);
+      expect(yield* math.operations.pi).toEqual(3.14);
+    });
+
+    expect(log).toEqual([]);
+  });
+
+  it("replays recorded errors", function* () {
+    let log: string[] = [];
+    let math = createMath(log);
+
+    yield* scoped(function* () {
+      yield* record(math, { key: "errors", store });
+      try {
+        yield* math.operations.divide(1, 0);
+      } catch {
+        // recorded
+      }
+    });
+
+    let error: unknown;
+    yield* scoped(function* () {
+      yield* replay(math, { key: "errors", store });
+      try {
+        yield* math.operations.divide(1, 0);
+      } catch (e) {
+        error = e;
+      }
+    });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({
+      name: "RangeError",
+      message: "division by zero",
+    });
+  });
+
+  it("serves repeated calls in the order they were recorded", function* () {
+    let counter = 0;
+    let api = createApi("recorder.counter", {
+      *next(): Operation<number> {
+        return ++counter;
+      },
+    });
+
+    yield* scoped(function* () {
+      yield* record(api, { key: "counter", store });
+      yield* api.operations.next();
+      yield* api.operations.next();
+    });
+
+    counter = 100;
+
+    let values = yield* scoped(function* () {
+      yield* replay(api, { key: "counter", store });
+      return [yield* api.operations.next(), yield* api.operations.next()];
+    });
+
+    expect(values).toEqual([1, 2]);
+    expect(counter).toEqual(100);
+  });
+
+  it("fails calls that were not recorded", function* () {
+    let log: string[] = [];
+    let math = createMath(log);
+
+    yield* scoped(function* () {
+      yield* record(math, { key: "math", store });
+      yield* math.operations.add(1, 2);
+    });
+
+    let error: unknown;
+    yield* scoped(function* () {
+      yield* replay(math, { key: "math", store });
+      try {
+        yield* math.operations.add(2, 2);
+      } catch (e) {
+        error = e;
+      }
+    });
+
+    expect((error as Error).message).toMatch(/no recording of add\(2,2\)/);
+    expect(log).toEqual(["add(1, 2)"]);
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  type Api,
+  type Around,
+  type ErrorSummary,
+  type Middleware,
+  type MiddlewareHandle,
+  invoke,
+  summarizeError,
+} from "@effectionx/context-api";
+import { type Store, createLogWriter, useStore } from "@effectionx/jsonl-store";
+import { type Operation, type Result, Err, Ok, each } from "effection";
+
+/**
+ * A single call captured by {@link record}. This is the shape of each line
+ * of a recording in the store.
+ */
+export type Recording = {
+  /** The name of the field of the API that was called. */
+  field: string;
+  /** The arguments the field was called with. */
+  args: unknown[];
+  /** When the call started, in milliseconds since the epoch. */
+  startedAt: number;
+  /** How long the call took to settle, in milliseconds. */
+  duration: number;
+} & ({ ok: true; value: unknown } | { ok: false; error: RecordedError });
+
+/**
+ * The serializable form of an error thrown by a recorded call.
+ */
+export type RecordedError = ErrorSummary;
+
+export interface RecorderOptions<A> {
+  /**
+   * The key in the store that the recording is written to, or read from.
+   */
+  key: string;
+  /**
+   * The store holding the recording. Defaults to the store in context,
+   * as returned by `useStore()`.
+   */
+  store?: Store;
+  /**
+   * The fields of the API to record or replay. Defaults to every field.
+   */
+  fields?: (keyof A & string)[];
+}
+
+/**
+ * Capture every call to `api` made from the current scope into a JSONL
+ * recording: the field, its arguments, whether it returned or threw, and
+ * how long it took. Each call is appended to the recording as it settles,
+ * and any previous recording under the same key is replaced.
+ *
+ * The recorder is installed as `"min"` middleware, so it records the calls
+ * that reach the implementation of the API, while `"max"` middleware such as
+ * logging still runs above it. Arguments and results are stored as JSON, so
+ * they must be serializable to be replayed faithfully.
+ *
+ * @returns a handle that stops recording when removed
+ *
+ * @example
+ * ```ts
+ * import { record } from "@effectionx/recorder";
+ * import { weather } from "./weather.ts";
+ *
+ * yield* record(weather, { key: "fixtures/forecast" });
+ * yield* weather.operations.forecast("Austin"); // recorded
+ * ```
+ */
+export function* record<A extends {}, L extends string>(
+  api: Api<A, L>,
+  options: RecorderOptions<A>,
+): Operation<MiddlewareHandle> {
+  let store = options.store ?? (yield* useStore());
+  let recordings = createLogWriter(store, options.key);
+
+  let around = mapFields(
+    api,
+    options,
+    (field) =>
+      function* (args, next) {
+        let startedAt = Date.now();
+        let start = performance.now();
+        let result: Result<unknown>;
+        try {
+          result = Ok(yield* invoke(next, args));
+        } catch (error) {
+          result = Err(error as Error);
+        }
+
+        let duration = performance.now() - start;
+        yield* recordings.write(
+          result.ok
+            ? {
+                field,
+                args,
+                startedAt,
+                duration,
+                ok: true,
+                value: result.value,
+              }
+            : {
+                field,
+                args,
+                startedAt,
+                duration,
+                ok: false,
+                error: summarizeError(result.error),
+              },
+        );
+
+        if (result.ok) {
+          return result.value;
+        }
+        throw result.error;
+      },
+  );
+
+  return yield* api.around(around, { at: "min", label: "record" });
+}
+
+/**
+ * Serve calls to `api` made from the current scope from a recording made
+ * with {@link record}, instead of calling the real implementation.
+ *
+ * Each call is matched to the first unused recording of the same field with
+ * the same arguments. Recorded values are returned, and recorded errors are
+ * thrown again with their original name and message. A call with no
+ * matching recording fails.
+ *
+ * @returns a handle that stops replaying when removed
+ *
+ * @example
+ * ```ts
+ * import { replay } from "@effectionx/recorder";
+ * import { weather } from "./weather.ts";
+ *
+ * yield* replay(weather, { key: "fixtures/forecast" });
+ * yield* weather.operations.forecast("Austin"); // served from the recording
+ * ```
+ */
+export function* replay<A extends {}, L extends string>(
+  api: Api<A, L>,
+  options: RecorderOptions<A>,
+): Operation<MiddlewareHandle> {
+  let store = options.store ?? (yield* useStore());
+
+  let recordings: Recording[] = [];
+  for (let recording of yield* each(store.read<Recording>(options.key))) {
+    recordings.push(recording);
+    yield* each.next();
+  }
+
+  let around = mapFields(
+    api,
+    options,
+    (field) =>
+      function* (args) {
+        let signature = JSON.stringify(args);
+        let index = recordings.findIndex(
+          (recording) =>
+            recording.field === field &&
+            JSON.stringify(recording.args) === signature,
+        );
+        if (index < 0) {
+          throw new Error(
+            `no recording of ${field}(${signature.slice(1, -1)}) in "${options.key}"`,
+          );
+        }
+
+        let [recording] = recordings.splice(index, 1);
+        if (recording.ok) {
+          return recording.value;
+        }
+        let error = new Error(recording.error.message);
+        error.name = recording.error.name;
+        throw error;
+      },
+  );
+
+  return yield* api.around(around, { at: "min", label: "replay" });
+}
+
+function mapFields<A extends {}, L extends string>(
+  api: Api<A, L>,
+  options: RecorderOptions<A>,
+  create: (
+    field: string,
+  ) => (
+    args: unknown[],
+    next: (...args: unknown[]) => unknown,
+  ) => Operation<unknown>,
+): Partial<Around<A>> {
+  let fields = options.fields ?? Object.keys(api.operations);
+  let around: Record<string, Middleware<unknown[], unknown>> = {};
+  for (let field of fields) {
+    around[field] = create(field);
+  }
+  return around as Partial<Around<A>>;
+}
@@ -0,0 +1,99 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { createChannel, sleep } from "effection";
+
+import { BufferOverflowError, buffer } from "./buffer.ts";
+import { streamOf } from "./stream-of.ts";
+import { collect } from "./test-helpers/streams.ts";
+
+describe("buffer", () => {
+  it("drops the oldest items with drop-oldest", function* () {
+    const source = createChannel<number, string>();
+    const buffered = buffer({ size: 2, overflow: "drop-oldest" })(source);
+    const subscription = yield* buffered;
+
+    for (const value of [1, 2, 3, 4, 5]) {
+      yield* source.send(value);
+    }
+    yield* source.close("end");
+    yield* sleep(0);
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [4, 5],
+      closeValue: "end",
+    });
+    expect(buffered.dropped).toEqual(3);
+  });
+
+  it("drops the items that arrive with drop-newest", function* () {
+    const source = createChannel<number, string>();
+    const buffered = buffer({ size: 2, overflow: "drop-newest" })(source);
+    const subscription = yield* buffered;
+
+    for (const value of [1, 2, 3, 4, 5]) {
+      yield* source.send(value);
+    }
+    yield* source.close("end");
+    yield* sleep(0);
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1, 2],
+      closeValue: "end",
+    });
+    expect(buffered.dropped).toEqual(3);
+  });
+
+  it("fails after the buffered items with error", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* buffer({ size: 2, overflow: "error" })(source);
+
+    for (const value of [1, 2, 3]) {
+      yield* source.send(value);
+    }
+    yield* sleep(0);
+
+    expect(yield* subscription.next()).toEqual({ done: false, value: 1 });
+    expect(yield* subscription.next()).toEqual({ done: false, value: 2 });
+
+    let error: unknown;
+    try {
+      yield* subscription.next();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(BufferOverflowError);
+    expect((error as BufferOverflowError).size).toEqual(2);
+  });
+
+  it("stops reading the source while full with block", function* () {
+    let pulled = 0;
+    const source = streamOf(
+      (function* () {
+        for (let i = 1; i <= 5; i++) {
+          pulled = i;
+          yield i;
+        }
+        return "end";
+      })(),
+    );
+    const buffered = buffer({ size: 2 })(source);
+    const subscription = yield* buffered;
+    yield* sleep(0);
+
+    expect(pulled).toEqual(2);
+
+    expect(yield* subscription.next()).toEqual({ done: false, value: 1 });
+    yield* sleep(0);
+    expect(pulled).toEqual(3);
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [2, 3, 4, 5],
+      closeValue: "end",
+    });
+    expect(buffered.dropped).toEqual(0);
+  });
+
+  it("rejects a size that is not a positive integer", function* () {
+    expect(() => buffer({ size: 0 })).toThrow(RangeError);
+  });
+});
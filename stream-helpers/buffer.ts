@@ -0,0 +1,146 @@
+import { createArraySignal, is } from "@effectionx/signals";
+import { Err, Ok, type Result, type Stream, spawn } from "effection";
+
+/**
+ * What {@link buffer} does with an item that arrives when the buffer is
+ * full.
+ *
+ * - `"drop-oldest"` — drop the oldest item in the buffer to make room
+ * - `"drop-newest"` — drop the item that arrived
+ * - `"error"` — fail the stream with a {@link BufferOverflowError} once the
+ *   items in the buffer have been consumed
+ * - `"block"` — stop reading the source until there is room
+ */
+export type BufferOverflow = "drop-oldest" | "drop-newest" | "error" | "block";
+
+/**
+ * Options for {@link buffer}.
+ */
+export interface BufferOptions {
+  /**
+   * The most items to hold for the consumer.
+   */
+  readonly size: number;
+  /**
+   * What to do with an item that arrives when the buffer is full. Defaults
+   * to `"block"`.
+   */
+  readonly overflow?: BufferOverflow;
+}
+
+/**
+ * A stream returned by {@link buffer}.
+ */
+export interface BufferedStream<T, TClose> extends Stream<T, TClose> {
+  /**
+   * How many items have been dropped so far, across every subscription.
+   */
+  readonly dropped: number;
+}
+
+/**
+ * Error thrown by a stream created with {@link buffer} and the `"error"`
+ * overflow strategy when an item arrives while the buffer is full.
+ */
+export class BufferOverflowError extends Error {
+  readonly name = "BufferOverflowError";
+  /** The size of the buffer that overflowed. */
+  readonly size: number;
+
+  constructor(size: number) {
+    super(`stream buffer of ${size} items overflowed`);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.size = size;
+  }
+}
+
+/**
+ * Reads the source stream as fast as it produces, and holds up to `size`
+ * items until the consumer asks for them. Unlike {@link valve}, it does not
+ * rely on the source to pause: when the buffer is full, the `overflow`
+ * strategy decides what happens to the next item, so that a fast source
+ * cannot grow the buffer without bound.
+ *
+ * The number of dropped items is available as `dropped` on the returned
+ * stream. The close value and errors of the source are passed on after the
+ * items before them.
+ *
+ * @param options.size - The most items to hold
+ * @param options.overflow - What to do when the buffer is full
+ * @returns A stream transformer that buffers a bounded number of items
+ *
+ * @example
+ * ```typescript
+ * import { buffer } from "@effectionx/stream-helpers";
+ *
+ * const messages = buffer({ size: 1000, overflow: "drop-oldest" })(socket);
+ *
+ * // ...
+ * console.log(`${messages.dropped} messages dropped`);
+ * ```
+ */
+export function buffer(
+  options: BufferOptions,
+): <T, TClose>(stream: Stream<T, TClose>) => BufferedStream<T, TClose> {
+  const { size, overflow = "block" } = options;
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(
+      `buffer() size must be a positive integer, but got ${size}`,
+    );
+  }
+
+  return <T, TClose>(stream: Stream<T, TClose>): BufferedStream<T, TClose> => {
+    let dropped = 0;
+
+    return {
+      get dropped() {
+        return dropped;
+      },
+      *[Symbol.iterator]() {
+        const subscription = yield* stream;
+        const items = yield* createArraySignal<
+          Result<IteratorResult<T, TClose>>
+        >([]);
+
+        yield* spawn(function* () {
+          while (true) {
+            if (overflow === "block") {
+              yield* is(items, (items) => items.length < size);
+            }
+            let result: Result<IteratorResult<T, TClose>>;
+            try {
+              result = Ok(yield* subscription.next());
+            } catch (error) {
+              result = Err(error as Error);
+            }
+            if (!result.ok || result.value.done) {
+              items.push(result);
+              return;
+            }
+            if (items.length < size) {
+              items.push(result);
+            } else if (overflow === "drop-oldest") {
+              items.update((items) => [...items.slice(1), result]);
+              dropped++;
+            } else if (overflow === "drop-newest") {
+              dropped++;
+            } else {
+              items.push(Err(new BufferOverflowError(size)));
+              return;
+            }
+          }
+        });
+
+        return {
+          *next() {
+            const result = yield* items.shift();
+            if (!result.ok) {
+              throw result.error;
+            }
+            return result.value;
+          },
+        };
+      },
+    };
+  };
+}
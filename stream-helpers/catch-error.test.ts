@@ -0,0 +1,97 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import type { Stream } from "effection";
+
+import { catchError } from "./catch-error.ts";
+import { streamOf } from "./stream-of.ts";
+import { collect, failing, logged } from "./test-helpers/streams.ts";
+
+describe("catchError", () => {
+  it("passes a source that does not fail through", function* () {
+    const log: string[] = [];
+    const subscription = yield* catchError(() =>
+      logged("fallback", log, streamOf([9])),
+    )(logged("source", log, streamOf([1, 2])));
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1, 2],
+      closeValue: undefined,
+    });
+    expect(log).toEqual(["source subscribed"]);
+  });
+
+  it("switches to the fallback when the source fails", function* () {
+    const log: string[] = [];
+    const boom = new Error("boom");
+    const errors: unknown[] = [];
+    const subscription = yield* catchError((error) => {
+      errors.push(error);
+      return logged("fallback", log, streamOf([3, 4]));
+    })(logged("source", log, failing([1, 2], boom)));
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1, 2, 3, 4],
+      closeValue: undefined,
+    });
+    expect(errors).toEqual([boom]);
+    expect(log).toEqual([
+      "source subscribed",
+      "source torn down",
+      "fallback subscribed",
+    ]);
+  });
+
+  it("switches to the fallback when subscribing to the source fails", function* () {
+    const log: string[] = [];
+    const unreachable: Stream<number, string> = {
+      *[Symbol.iterator]() {
+        throw new Error("connect failed");
+      },
+    };
+    const subscription = yield* catchError((error) => {
+      log.push((error as Error).message);
+      return logged("fallback", log, streamOf([1]));
+    })(unreachable);
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1],
+      closeValue: undefined,
+    });
+    expect(log).toEqual(["connect failed", "fallback subscribed"]);
+  });
+
+  it("fails with the error thrown by the handler", function* () {
+    const log: string[] = [];
+    const subscription = yield* catchError(() => {
+      throw new Error("not recoverable");
+    })(logged("source", log, failing([1], new Error("boom"))));
+
+    expect(yield* subscription.next()).toEqual({ done: false, value: 1 });
+
+    let error: unknown;
+    try {
+      yield* subscription.next();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toMatchObject({ message: "not recoverable" });
+  });
+
+  it("does not catch errors of the fallback", function* () {
+    const log: string[] = [];
+    const subscription = yield* catchError(() =>
+      logged("fallback", log, failing([2], new Error("fallback failed"))),
+    )(logged("source", log, failing([1], new Error("boom"))));
+
+    expect(yield* subscription.next()).toEqual({ done: false, value: 1 });
+    expect(yield* subscription.next()).toEqual({ done: false, value: 2 });
+
+    let error: unknown;
+    try {
+      yield* subscription.next();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toMatchObject({ message: "fallback failed" });
+  });
+});
@@ -0,0 +1,65 @@
+import type { Operation, Stream } from "effection";
+
+import { type Unsubscribable, subscribe } from "./subscribe.ts";
+
+/**
+ * Recovers from an error of the source stream, including one thrown while
+ * subscribing to it, by switching to the stream returned by `handler`. The
+ * items of the fallback stream follow the items that the source yielded
+ * before it failed, and the stream closes when the fallback does.
+ *
+ * The handler can rethrow the error, or throw another one, to fail the
+ * stream instead. Errors of the fallback stream are not caught.
+ *
+ * @param handler - Returns the stream to continue with
+ * @returns A stream transformer that switches to a fallback on error
+ *
+ * @example
+ * ```typescript
+ * import { catchError, streamOf } from "@effectionx/stream-helpers";
+ *
+ * const prices = catchError((error) => {
+ *   console.warn("live prices failed, using cached ones", error);
+ *   return streamOf(cachedPrices);
+ * })(livePrices);
+ * ```
+ */
+export function catchError<T, R>(
+  handler: (error: unknown) => Stream<T, R>,
+): <TClose>(stream: Stream<T, TClose>) => Stream<T, TClose | R> {
+  return <TClose>(stream: Stream<T, TClose>): Stream<T, TClose | R> => ({
+    *[Symbol.iterator]() {
+      let caught = false;
+
+      function* recover(error: unknown): Operation<Unsubscribable<T, R>> {
+        if (caught) {
+          throw error;
+        }
+        caught = true;
+        return yield* subscribe(handler(error));
+      }
+
+      let source: Unsubscribable<T, TClose | R>;
+      try {
+        source = yield* subscribe(stream);
+      } catch (error) {
+        source = yield* recover(error);
+      }
+
+      return {
+        *next() {
+          try {
+            return yield* source.subscription.next();
+          } catch (error) {
+            if (caught) {
+              throw error;
+            }
+            yield* source.unsubscribe();
+            source = yield* recover(error);
+            return yield* source.subscription.next();
+          }
+        },
+      };
+    },
+  });
+}
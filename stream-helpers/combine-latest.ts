@@ -0,0 +1,68 @@
+import type { Stream } from "effection";
+
+import { type StreamClose, type StreamItem, useSources } from "./sources.ts";
+
+/**
+ * Combines several streams into one that yields a tuple with the latest
+ * item of each of them whenever any of them yields. Nothing is yielded until
+ * every source has yielded at least once. Each source is read at most one
+ * item ahead of the consumer.
+ *
+ * The combined stream closes once every source has closed, with an array of
+ * their close values in the order the sources were given. If any source
+ * throws, the combined stream throws that error. When the consumer stops,
+ * every source subscription is torn down with it.
+ *
+ * @param streams - The streams to combine
+ * @returns A stream of tuples with the latest item of each source
+ *
+ * @example
+ * ```typescript
+ * import { combineLatest } from "@effectionx/stream-helpers";
+ *
+ * // recompute whenever the filter or the data changes
+ * const views = combineLatest(filters, records);
+ * ```
+ */
+export function combineLatest<
+  TStreams extends readonly Stream<unknown, unknown>[],
+>(
+  ...streams: TStreams
+): Stream<
+  { -readonly [K in keyof TStreams]: StreamItem<TStreams[K]> },
+  { -readonly [K in keyof TStreams]: StreamClose<TStreams[K]> }
+> {
+  type T = { -readonly [K in keyof TStreams]: StreamItem<TStreams[K]> };
+  type TClose = { -readonly [K in keyof TStreams]: StreamClose<TStreams[K]> };
+
+  return {
+    *[Symbol.iterator]() {
+      const sources = yield* useSources(streams);
+      const latest: unknown[] = streams.map(() => undefined);
+      const seen = streams.map(() => false);
+
+      return {
+        *next() {
+          while (true) {
+            if (sources.arrivals.length > 0) {
+              const index = sources.arrivals[0];
+              latest[index] = sources.take(index);
+              seen[index] = true;
+              if (seen.every(Boolean)) {
+                return { done: false, value: [...latest] as T };
+              }
+              continue;
+            }
+            if (sources.failure) {
+              throw sources.failure.error;
+            }
+            if (sources.closed.every(Boolean)) {
+              return { done: true, value: [...sources.closes] as TClose };
+            }
+            yield* sources.changed();
+          }
+        },
+      };
+    },
+  };
+}
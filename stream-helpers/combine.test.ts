@@ -0,0 +1,224 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import {
+  type Operation,
+  type Stream,
+  createChannel,
+  ensure,
+  sleep,
+  spawn,
+  withResolvers,
+} from "effection";
+
+import { combineLatest } from "./combine-latest.ts";
+import { merge } from "./merge.ts";
+import { streamOf } from "./stream-of.ts";
+import { zip } from "./zip.ts";
+import { collect } from "./test-helpers/streams.ts";
+
+/**
+ * A stream that yields each value after waiting its delay, then closes.
+ */
+function timed<T, TClose>(
+  items: [delay: number, value: T][],
+  close: TClose,
+): Stream<T, TClose> {
+  return {
+    *[Symbol.iterator]() {
+      const queue = [...items];
+      return {
+        *next() {
+          const item = queue.shift();
+          if (!item) {
+            return { done: true, value: close };
+          }
+          yield* sleep(item[0]);
+          return { done: false, value: item[1] };
+        },
+      };
+    },
+  };
+}
+
+/**
+ * A stream that never yields, and logs when its subscription is torn down.
+ */
+function endless(name: string, log: string[]): Stream<never, never> {
+  return {
+    *[Symbol.iterator]() {
+      yield* ensure(() => {
+        log.push(`torn down ${name}`);
+      });
+      return yield* createChannel<never, never>();
+    },
+  };
+}
+
+function* halts(stream: Stream<unknown, unknown>): Operation<void> {
+  const subscribed = withResolvers<void>();
+  const task = yield* spawn(function* () {
+    const subscription = yield* stream;
+    subscribed.resolve();
+    yield* subscription.next();
+  });
+  yield* subscribed.operation;
+  yield* task.halt();
+}
+
+describe("merge", () => {
+  it("yields items of every stream as they arrive", function* () {
+    const merged = merge(
+      timed(
+        [
+          [10, "a1"],
+          [20, "a2"],
+        ],
+        "a",
+      ),
+      timed(
+        [
+          [5, 1],
+          [10, 2],
+          [30, 3],
+        ],
+        true,
+      ),
+    );
+
+    expect(yield* collect(yield* merged)).toEqual({
+      values: [1, "a1", 2, "a2", 3],
+      closeValue: ["a", true],
+    });
+  });
+
+  it("throws the error of a failing stream", function* () {
+    const failing: Stream<number, void> = {
+      *[Symbol.iterator]() {
+        return {
+          *next() {
+            throw new Error("broken pipe");
+          },
+        };
+      },
+    };
+
+    let error: unknown;
+    try {
+      yield* collect(yield* merge(streamOf([1, 2]), failing));
+    } catch (e) {
+      error = e;
+    }
+    expect((error as Error).message).toEqual("broken pipe");
+  });
+
+  it("tears down every stream when the consumer stops", function* () {
+    const log: string[] = [];
+
+    yield* halts(merge(endless("a", log), endless("b", log)));
+
+    expect(log.sort()).toEqual(["torn down a", "torn down b"]);
+  });
+});
+
+describe("zip", () => {
+  it("yields tuples of the next item of every stream", function* () {
+    const zipped = zip(
+      timed(
+        [
+          [10, "a"],
+          [0, "b"],
+          [0, "c"],
+        ],
+        "letters",
+      ),
+      timed(
+        [
+          [0, 1],
+          [20, 2],
+        ],
+        "numbers",
+      ),
+    );
+
+    expect(yield* collect(yield* zipped)).toEqual({
+      values: [
+        ["a", 1],
+        ["b", 2],
+      ],
+      closeValue: "numbers",
+    });
+  });
+
+  it("closes when a stream closes without waiting for the others", function* () {
+    const log: string[] = [];
+    const empty = streamOf(
+      (function* (): Generator<number, string> {
+        return "empty";
+      })(),
+    );
+
+    const result = yield* collect(yield* zip(empty, endless("other", log)));
+
+    expect(result).toEqual({ values: [], closeValue: "empty" });
+  });
+
+  it("closes right away with no streams", function* () {
+    const result = yield* collect(yield* zip());
+
+    expect(result).toEqual({ values: [], closeValue: undefined });
+  });
+
+  it("tears down every stream when the consumer stops", function* () {
+    const log: string[] = [];
+
+    yield* halts(zip(endless("a", log), endless("b", log)));
+
+    expect(log.sort()).toEqual(["torn down a", "torn down b"]);
+  });
+});
+
+describe("combineLatest", () => {
+  it("yields the latest item of every stream when any of them yields", function* () {
+    const combined = combineLatest(
+      timed(
+        [
+          [10, "a"],
+          [20, "b"],
+        ],
+        "letters",
+      ),
+      timed(
+        [
+          [0, 1],
+          [20, 2],
+        ],
+        "numbers",
+      ),
+    );
+
+    expect(yield* collect(yield* combined)).toEqual({
+      values: [
+        ["a", 1],
+        ["a", 2],
+        ["b", 2],
+      ],
+      closeValue: ["letters", "numbers"],
+    });
+  });
+
+  it("yields nothing until every stream has yielded", function* () {
+    const result = yield* collect(
+      yield* combineLatest(streamOf([1, 2, 3]), streamOf<string, void>([])),
+    );
+
+    expect(result.values).toEqual([]);
+  });
+
+  it("tears down every stream when the consumer stops", function* () {
+    const log: string[] = [];
+
+    yield* halts(combineLatest(endless("a", log), endless("b", log)));
+
+    expect(log.sort()).toEqual(["torn down a", "torn down b"]);
+  });
+});
@@ -0,0 +1,80 @@
+import { timebox } from "@effectionx/timebox";
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { createChannel, spawn } from "effection";
+
+import { debounce } from "./debounce.ts";
+import { collect, produce } from "./test-helpers/streams.ts";
+
+describe("debounce", () => {
+  it("only yields the last item of a burst", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* debounce(20)(source);
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [0, 2],
+          [0, 3],
+          [50, 4],
+          [0, 5],
+          [50, 6],
+        ],
+        "end",
+      ),
+    );
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [3, 5, 6],
+      closeValue: "end",
+    });
+  });
+
+  it("yields the waiting item right away when the source closes", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* debounce(60_000)(source);
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [0, 2],
+        ],
+        "end",
+      ),
+    );
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [2],
+      closeValue: "end",
+    });
+  });
+
+  it("keeps the waiting item when a read is given up on", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* debounce(20)(source);
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [0, 2],
+          [50, 3],
+        ],
+        "end",
+      ),
+    );
+
+    const first = yield* timebox(5, () => subscription.next());
+    expect(first.timeout).toEqual(true);
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [2, 3],
+      closeValue: "end",
+    });
+  });
+});
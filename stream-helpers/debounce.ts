@@ -0,0 +1,64 @@
+import { type Stream, useScope } from "effection";
+
+import { createPull } from "./pull.ts";
+
+/**
+ * Yields an item only once `ms` milliseconds have passed without a newer
+ * item from the source stream. Items that are followed by another one
+ * within `ms` are dropped.
+ *
+ * When the source closes, the item that was waiting is yielded right away,
+ * and then the stream closes with the source's close value.
+ *
+ * @example
+ * ```typescript
+ * import { debounce } from "@effectionx/stream-helpers";
+ *
+ * // only search once the user stops typing for 300ms
+ * const queries = debounce(300)(keystrokes);
+ * ```
+ *
+ * @param ms - How long the source must be quiet before an item is yielded
+ * @returns A stream transformer that only yields the last item of a burst
+ */
+export function debounce(
+  ms: number,
+): <T, TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  return <T, TClose>(stream: Stream<T, TClose>): Stream<T, TClose> => ({
+    *[Symbol.iterator]() {
+      const pull = createPull(yield* useScope(), yield* stream);
+      // the item that waits for the source to be quiet, and when it is due
+      let waiting: { value: T; until: number } | undefined;
+      let closed: IteratorReturnResult<TClose> | undefined;
+
+      return {
+        *next() {
+          if (closed) {
+            return closed;
+          }
+          while (true) {
+            if (!waiting) {
+              const next = (yield* pull.next()) as IteratorResult<T, TClose>;
+              if (next.done) {
+                return next;
+              }
+              waiting = { value: next.value, until: performance.now() + ms };
+              continue;
+            }
+            const next = yield* pull.next(waiting.until - performance.now());
+            if (next && !next.done) {
+              waiting = { value: next.value, until: performance.now() + ms };
+              continue;
+            }
+            if (next) {
+              closed = next;
+            }
+            const { value } = waiting;
+            waiting = undefined;
+            return { done: false, value };
+          }
+        },
+      };
+    },
+  });
+}
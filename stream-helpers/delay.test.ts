@@ -0,0 +1,38 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { createChannel, spawn } from "effection";
+
+import { delay } from "./delay.ts";
+import { collect, produce } from "./test-helpers/streams.ts";
+
+describe("delay", () => {
+  it("yields every item `ms` after it arrived", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* delay(30)(source);
+    const start = performance.now();
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [20, 2],
+        ],
+        "end",
+      ),
+    );
+
+    const first = yield* subscription.next();
+    expect(first).toEqual({ done: false, value: 1 });
+    expect(performance.now() - start).toBeGreaterThanOrEqual(25);
+
+    const second = yield* subscription.next();
+    expect(second).toEqual({ done: false, value: 2 });
+    expect(performance.now() - start).toBeGreaterThanOrEqual(45);
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [],
+      closeValue: "end",
+    });
+  });
+});
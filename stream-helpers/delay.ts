@@ -0,0 +1,66 @@
+import { createArraySignal } from "@effectionx/signals";
+import { Err, Ok, type Result, type Stream, sleep, spawn } from "effection";
+
+/**
+ * Yields every item of the source stream `ms` milliseconds after it
+ * arrived, keeping the time between items. The source is read as fast as
+ * it produces, and items are held until they are due.
+ *
+ * Once the items before it have been yielded, the stream closes with the
+ * source's close value, or throws the source's error, without further
+ * delay.
+ *
+ * @example
+ * ```typescript
+ * import { delay } from "@effectionx/stream-helpers";
+ *
+ * const replay = delay(500)(events);
+ * ```
+ *
+ * @param ms - How long to hold each item
+ * @returns A stream transformer that shifts items later in time
+ */
+export function delay(
+  ms: number,
+): <T, TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  return <T, TClose>(stream: Stream<T, TClose>): Stream<T, TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+      const held = yield* createArraySignal<{
+        time: number;
+        result: Result<IteratorResult<T, TClose>>;
+      }>([]);
+
+      yield* spawn(function* () {
+        while (true) {
+          let result: Result<IteratorResult<T, TClose>>;
+          try {
+            result = Ok(yield* subscription.next());
+          } catch (error) {
+            result = Err(error as Error);
+          }
+          held.push({ time: performance.now(), result });
+          if (!result.ok || result.value.done) {
+            return;
+          }
+        }
+      });
+
+      return {
+        *next() {
+          const { time, result } = yield* held.shift();
+          if (!result.ok) {
+            throw result.error;
+          }
+          if (!result.value.done) {
+            const wait = time + ms - performance.now();
+            if (wait > 0) {
+              yield* sleep(wait);
+            }
+          }
+          return result.value;
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,88 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { pipe } from "remeda";
+
+import { distinctUntilChanged } from "./distinct-until-changed.ts";
+import { forEach } from "./for-each.ts";
+import { streamOf } from "./stream-of.ts";
+
+interface Job {
+  id: number;
+  status: string;
+}
+
+describe("distinctUntilChanged", () => {
+  it("should drop values equal to the one before", function* () {
+    const values: number[] = [];
+
+    const closeValue = yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      distinctUntilChanged<number>()(
+        streamOf(
+          (function* () {
+            yield 1;
+            yield 1;
+            yield 2;
+            yield 2;
+            yield 1;
+            return "done";
+          })(),
+        ),
+      ),
+    );
+
+    expect(values).toEqual([1, 2, 1]);
+    expect(closeValue).toBe("done");
+  });
+
+  it("should compare values with the given equals function", function* () {
+    const values: Job[] = [];
+
+    yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      distinctUntilChanged((a: Job, b: Job) => a.status === b.status)(
+        streamOf([
+          { id: 1, status: "pending" },
+          { id: 2, status: "pending" },
+          { id: 3, status: "done" },
+        ]),
+      ),
+    );
+
+    expect(values).toEqual([
+      { id: 1, status: "pending" },
+      { id: 3, status: "done" },
+    ]);
+  });
+
+  it("should yield undefined as a first value", function* () {
+    const values: (number | undefined)[] = [];
+
+    yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      distinctUntilChanged<number | undefined>()(
+        streamOf([undefined, undefined, 1]),
+      ),
+    );
+
+    expect(values).toEqual([undefined, 1]);
+  });
+
+  it("should work with pipe", function* () {
+    const values: number[] = [];
+
+    const stream = pipe(streamOf([1, 1, 2, 3, 3]), distinctUntilChanged());
+
+    yield* forEach(function* (value) {
+      values.push(value);
+    }, stream);
+
+    expect(values).toEqual([1, 2, 3]);
+  });
+});
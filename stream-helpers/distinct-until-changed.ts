@@ -0,0 +1,61 @@
+import type { Stream } from "effection";
+
+/**
+ * Creates a stream transformer that drops every value that is equal to the
+ * one before it, so that a run of equal values is yielded once. Values are
+ * compared with `Object.is` unless an `equals` function is given.
+ *
+ * This is useful for streams of state that re-emit the same value when
+ * nothing changed.
+ *
+ * The resulting stream closes with the source's close value.
+ *
+ * @template T - The type of items in the stream
+ * @template TClose - The type of the close value
+ * @param equals - Returns true if two consecutive values are the same
+ * @returns A stream transformer that drops consecutive equal values
+ *
+ * @example
+ * ```typescript
+ * import { distinctUntilChanged, streamOf } from "@effectionx/stream-helpers";
+ *
+ * const stream = streamOf([1, 1, 2, 2, 1]);
+ * // yields 1, 2, 1
+ * const changes = distinctUntilChanged<number>()(stream);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * import { distinctUntilChanged } from "@effectionx/stream-helpers";
+ *
+ * const statuses = distinctUntilChanged(
+ *   (a: Job, b: Job) => a.status === b.status,
+ * )(jobUpdates);
+ * ```
+ */
+export function distinctUntilChanged<T>(
+  equals: (previous: T, current: T) => boolean = Object.is,
+): <TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  return <TClose>(stream: Stream<T, TClose>): Stream<T, TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+      let previous: { value: T } | undefined;
+
+      return {
+        *next() {
+          while (true) {
+            const result = yield* subscription.next();
+            if (result.done) {
+              return result;
+            }
+            const changed = !previous || !equals(previous.value, result.value);
+            previous = { value: result.value };
+            if (changed) {
+              return result;
+            }
+          }
+        },
+      };
+    },
+  });
+}
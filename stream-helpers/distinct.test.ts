@@ -0,0 +1,69 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { pipe } from "remeda";
+
+import { distinct } from "./distinct.ts";
+import { forEach } from "./for-each.ts";
+import { streamOf } from "./stream-of.ts";
+
+describe("distinct", () => {
+  it("should yield only values with a key not seen before", function* () {
+    const values: string[] = [];
+
+    const closeValue = yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      distinct((word: string) => word.toLowerCase())(
+        streamOf(
+          (function* () {
+            yield "a";
+            yield "B";
+            yield "A";
+            yield "c";
+            yield "b";
+            return "done";
+          })(),
+        ),
+      ),
+    );
+
+    expect(values).toEqual(["a", "B", "c"]);
+    expect(closeValue).toBe("done");
+  });
+
+  it("should forget the least recently seen key beyond maxKeys", function* () {
+    const values: number[] = [];
+
+    yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      distinct((x: number) => x, { maxKeys: 2 })(streamOf([1, 2, 1, 3, 1, 2])),
+    );
+
+    // 1 was seen again before 3 arrived, so 2 is the key that is forgotten
+    expect(values).toEqual([1, 2, 3, 2]);
+  });
+
+  it("should reject a maxKeys that is not a positive integer", function* () {
+    expect(() => distinct((x: number) => x, { maxKeys: 0 })).toThrow(
+      RangeError,
+    );
+  });
+
+  it("should work with pipe", function* () {
+    const values: number[] = [];
+
+    const stream = pipe(
+      streamOf([1, 2, 3, 4, 5, 6]),
+      distinct((x) => x % 3),
+    );
+
+    yield* forEach(function* (value) {
+      values.push(value);
+    }, stream);
+
+    expect(values).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,83 @@
+import type { Stream } from "effection";
+
+/**
+ * Options for {@link distinct}.
+ */
+export interface DistinctOptions {
+  /**
+   * The most keys to remember. When a new key would go over it, the key that
+   * was seen least recently is forgotten, and a later value with that key is
+   * yielded again. Defaults to remembering every key.
+   */
+  readonly maxKeys?: number;
+}
+
+/**
+ * Creates a stream transformer that yields only the values whose key has
+ * not been seen before. Keys are compared with `SameValueZero`, like the
+ * keys of a `Map`.
+ *
+ * Every key is remembered for as long as the subscription lasts, so use
+ * `maxKeys` to bound the memory used by a long-lived stream with many keys.
+ *
+ * The resulting stream closes with the source's close value.
+ *
+ * @template T - The type of items in the stream
+ * @template K - The type of the keys
+ * @template TClose - The type of the close value
+ * @param keyFn - Computes the key of a value
+ * @param options.maxKeys - The most keys to remember
+ * @returns A stream transformer that drops values with a key seen before
+ *
+ * @example
+ * ```typescript
+ * import { distinct } from "@effectionx/stream-helpers";
+ *
+ * // handle each order once, even if it is delivered again
+ * const orders = distinct((order: Order) => order.id, { maxKeys: 10_000 })(
+ *   deliveries,
+ * );
+ * ```
+ */
+export function distinct<T, K>(
+  keyFn: (item: T) => K,
+  options: DistinctOptions = {},
+): <TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  const { maxKeys = Number.POSITIVE_INFINITY } = options;
+  if (
+    maxKeys !== Number.POSITIVE_INFINITY &&
+    (!Number.isInteger(maxKeys) || maxKeys < 1)
+  ) {
+    throw new RangeError(
+      `distinct() maxKeys must be a positive integer, but got ${maxKeys}`,
+    );
+  }
+
+  return <TClose>(stream: Stream<T, TClose>): Stream<T, TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+      // kept in the order the keys were last seen, least recent first
+      const seen = new Set<K>();
+
+      return {
+        *next() {
+          while (true) {
+            const result = yield* subscription.next();
+            if (result.done) {
+              return result;
+            }
+            const key = keyFn(result.value);
+            const repeated = seen.delete(key);
+            seen.add(key);
+            if (seen.size > maxKeys) {
+              seen.delete(seen.values().next().value as K);
+            }
+            if (!repeated) {
+              return result;
+            }
+          }
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,100 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { type Operation, type Stream, createChannel, sleep } from "effection";
+
+import { groupBy } from "./group-by.ts";
+import { streamOf } from "./stream-of.ts";
+import { collect } from "./test-helpers/streams.ts";
+
+interface Entry {
+  job: string;
+  line: number;
+}
+
+function* lines(stream: Stream<Entry, void>): Operation<number[]> {
+  const { values } = yield* collect(yield* stream);
+  return values.map((entry) => entry.line);
+}
+
+describe("groupBy", () => {
+  it("yields a group for every key with the items of that key", function* () {
+    const entries = streamOf(
+      (function* () {
+        yield { job: "a", line: 1 };
+        yield { job: "b", line: 1 };
+        yield { job: "a", line: 2 };
+        return "end";
+      })(),
+    );
+    const subscription = yield* groupBy((entry: Entry) => entry.job)(entries);
+
+    const { values: groups, closeValue } = yield* collect(subscription);
+
+    expect(groups.map((group) => group.key)).toEqual(["a", "b"]);
+    expect(closeValue).toEqual("end");
+    expect(yield* lines(groups[0].stream)).toEqual([1, 2]);
+    expect(yield* lines(groups[1].stream)).toEqual([1]);
+  });
+
+  it("closes a group that stays idle and starts a new one later", function* () {
+    const entries = createChannel<Entry, void>();
+    const subscription = yield* groupBy((entry: Entry) => entry.job, {
+      idleTimeout: 20,
+    })(entries);
+
+    yield* sleep(0);
+    yield* entries.send({ job: "a", line: 1 });
+    const first = yield* subscription.next();
+    expect(first.done).toEqual(false);
+
+    yield* sleep(50);
+    yield* entries.send({ job: "a", line: 2 });
+    const second = yield* subscription.next();
+    expect(second.done).toEqual(false);
+
+    if (!first.done && !second.done) {
+      expect(second.value.key).toEqual("a");
+      expect(second.value).not.toBe(first.value);
+      expect(yield* lines(first.value.stream)).toEqual([1]);
+    }
+  });
+
+  it("throws the error of the source to every group", function* () {
+    let count = 0;
+    const failing: Stream<Entry, void> = {
+      *[Symbol.iterator]() {
+        return {
+          *next() {
+            count++;
+            if (count > 1) {
+              throw new Error("corrupt log");
+            }
+            return { done: false, value: { job: "a", line: 1 } };
+          },
+        };
+      },
+    };
+    const subscription = yield* groupBy((entry: Entry) => entry.job)(failing);
+
+    const group = yield* subscription.next();
+    let error: unknown;
+    try {
+      yield* subscription.next();
+    } catch (e) {
+      error = e;
+    }
+    expect((error as Error).message).toEqual("corrupt log");
+
+    if (!group.done) {
+      const items = yield* group.value.stream;
+      expect((yield* items.next()).value).toEqual({ job: "a", line: 1 });
+      error = undefined;
+      try {
+        yield* items.next();
+      } catch (e) {
+        error = e;
+      }
+      expect((error as Error).message).toEqual("corrupt log");
+    }
+  });
+});
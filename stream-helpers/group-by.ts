@@ -0,0 +1,194 @@
+import {
+  Err,
+  Ok,
+  type Result,
+  type Stream,
+  sleep,
+  spawn,
+  withResolvers,
+} from "effection";
+
+/**
+ * A group of items with the same key, as yielded by {@link groupBy}.
+ */
+export interface Group<K, T> {
+  /** The key that every item of the group has. */
+  readonly key: K;
+  /**
+   * The items of the group, in order. It closes when the group does. It is
+   * meant to be subscribed to once.
+   */
+  readonly stream: Stream<T, void>;
+}
+
+/**
+ * Options for {@link groupBy}.
+ */
+export interface GroupByOptions {
+  /**
+   * Close a group once no item with its key has arrived for this many
+   * milliseconds. An item with that key arriving later starts a new group.
+   * Defaults to keeping groups open until the source closes.
+   */
+  readonly idleTimeout?: number;
+}
+
+interface GroupState<T> {
+  items: Result<IteratorResult<T, void>>[];
+  closed: boolean;
+  lastItemAt: number;
+}
+
+/**
+ * Splits the source stream into groups of items that share a key, and
+ * yields a {@link Group} for each key the first time it is seen. The items
+ * of a group are delivered on the group's own stream.
+ *
+ * The source is read as fast as it produces, and each group holds its items
+ * until its stream takes them. With `idleTimeout`, a group that receives no
+ * item for that long is closed and forgotten, so that groups for keys that
+ * are done do not pile up.
+ *
+ * When the source closes, every group closes, and the stream closes with the
+ * source's close value once every group has been yielded. If the source
+ * throws, every open group and the stream itself throw that error.
+ *
+ * @param keyFn - Computes the key of an item
+ * @param options.idleTimeout - How long a group may go without items
+ * @returns A stream transformer that yields groups of items
+ *
+ * @example
+ * ```typescript
+ * import { forEach, groupBy } from "@effectionx/stream-helpers";
+ * import { spawn } from "effection";
+ *
+ * const jobs = groupBy((entry: LogEntry) => entry.jobId, {
+ *   idleTimeout: 60_000,
+ * })(entries);
+ *
+ * yield* forEach(function* ({ key, stream }) {
+ *   yield* spawn(() => forEach(writeTo(`${key}.log`), stream));
+ * }, jobs);
+ * ```
+ */
+export function groupBy<T, K>(
+  keyFn: (item: T) => K,
+  options: GroupByOptions = {},
+): <TClose>(stream: Stream<T, TClose>) => Stream<Group<K, T>, TClose> {
+  const { idleTimeout } = options;
+
+  return <TClose>(stream: Stream<T, TClose>): Stream<Group<K, T>, TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+      const groups = new Map<K, GroupState<T>>();
+      const created: Group<K, T>[] = [];
+      let end: Result<TClose> | undefined;
+      let changed = withResolvers<void>();
+
+      function notify() {
+        changed.resolve();
+        changed = withResolvers<void>();
+      }
+
+      function close(
+        key: K,
+        group: GroupState<T>,
+        result: Result<IteratorResult<T, void>>,
+      ) {
+        group.items.push(result);
+        group.closed = true;
+        groups.delete(key);
+        notify();
+      }
+
+      function itemsOf(group: GroupState<T>): Stream<T, void> {
+        return {
+          *[Symbol.iterator]() {
+            return {
+              *next() {
+                while (group.items.length === 0) {
+                  yield* changed.operation;
+                }
+                const result = group.items[0];
+                if (!result.ok) {
+                  throw result.error;
+                }
+                if (!result.value.done) {
+                  group.items.shift();
+                }
+                return result.value;
+              },
+            };
+          },
+        };
+      }
+
+      yield* spawn(function* () {
+        try {
+          while (true) {
+            const next = yield* subscription.next();
+            if (next.done) {
+              for (const [key, group] of groups) {
+                close(key, group, Ok({ done: true, value: undefined }));
+              }
+              end = Ok(next.value);
+              notify();
+              return;
+            }
+            const key = keyFn(next.value);
+            let group = groups.get(key);
+            if (!group) {
+              const state: GroupState<T> = {
+                items: [],
+                closed: false,
+                lastItemAt: performance.now(),
+              };
+              group = state;
+              groups.set(key, state);
+              created.push({ key, stream: itemsOf(state) });
+              if (idleTimeout !== undefined) {
+                yield* spawn(function* () {
+                  while (!state.closed) {
+                    const idle = performance.now() - state.lastItemAt;
+                    if (idle >= idleTimeout) {
+                      close(key, state, Ok({ done: true, value: undefined }));
+                      return;
+                    }
+                    yield* sleep(idleTimeout - idle);
+                  }
+                });
+              }
+            }
+            group.items.push(Ok({ done: false, value: next.value }));
+            group.lastItemAt = performance.now();
+            notify();
+          }
+        } catch (error) {
+          for (const [key, group] of groups) {
+            close(key, group, Err(error as Error));
+          }
+          end = Err(error as Error);
+          notify();
+        }
+      });
+
+      return {
+        *next() {
+          while (true) {
+            const group = created.shift();
+            if (group) {
+              return { done: false, value: group };
+            }
+            if (end) {
+              if (end.ok) {
+                return { done: true, value: end.value };
+              }
+              throw end.error;
+            }
+            yield* changed.operation;
+          }
+        },
+      };
+    },
+  });
+}
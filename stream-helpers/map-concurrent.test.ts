@@ -0,0 +1,140 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { sleep, spawn, suspend, withResolvers } from "effection";
+
+import { mapConcurrent } from "./map-concurrent.ts";
+import { streamOf } from "./stream-of.ts";
+import { collect } from "./test-helpers/streams.ts";
+
+describe("mapConcurrent", () => {
+  it("maps up to `concurrency` items at the same time", function* () {
+    let running = 0;
+    let most = 0;
+    const stream = mapConcurrent(
+      function* (x: number) {
+        running++;
+        most = Math.max(most, running);
+        yield* sleep(5);
+        running--;
+        return x * 2;
+      },
+      { concurrency: 2 },
+    )(streamOf([1, 2, 3, 4, 5]));
+
+    const { values } = yield* collect(yield* stream);
+
+    expect(values).toEqual([2, 4, 6, 8, 10]);
+    expect(most).toEqual(2);
+  });
+
+  it("keeps the order of the source stream by default", function* () {
+    const stream = mapConcurrent(
+      function* (x: number) {
+        yield* sleep(x * 10);
+        return x;
+      },
+      { concurrency: 3 },
+    )(streamOf([3, 1, 2]));
+
+    const { values } = yield* collect(yield* stream);
+
+    expect(values).toEqual([3, 1, 2]);
+  });
+
+  it("yields items as they are mapped when not ordered", function* () {
+    const stream = mapConcurrent(
+      function* (x: number) {
+        yield* sleep(x * 10);
+        return x;
+      },
+      { concurrency: 3, ordered: false },
+    )(streamOf([3, 1, 2]));
+
+    const { values } = yield* collect(yield* stream);
+
+    expect(values).toEqual([1, 2, 3]);
+  });
+
+  it("closes with the close value of the source stream", function* () {
+    const stream = mapConcurrent(
+      function* (x: number) {
+        return x + 1;
+      },
+      { concurrency: 2 },
+    )(
+      streamOf(
+        (function* () {
+          yield 1;
+          yield 2;
+          return "end";
+        })(),
+      ),
+    );
+
+    expect(yield* collect(yield* stream)).toEqual({
+      values: [2, 3],
+      closeValue: "end",
+    });
+  });
+
+  it("throws the error of a failed mapper to the consumer", function* () {
+    const stream = mapConcurrent(
+      function* (x: number) {
+        if (x === 2) {
+          throw new Error("cannot map 2");
+        }
+        return x;
+      },
+      { concurrency: 2 },
+    )(streamOf([1, 2, 3]));
+
+    const subscription = yield* stream;
+
+    expect(yield* subscription.next()).toEqual({ done: false, value: 1 });
+    let error: unknown;
+    try {
+      yield* subscription.next();
+    } catch (e) {
+      error = e;
+    }
+    expect((error as Error).message).toEqual("cannot map 2");
+  });
+
+  it("halts running mappers when the consumer stops", function* () {
+    const log: string[] = [];
+    const started = withResolvers<void>();
+    const stream = mapConcurrent(
+      function* (x: number) {
+        try {
+          started.resolve();
+          yield* suspend();
+          return x;
+        } finally {
+          log.push(`halted ${x}`);
+        }
+      },
+      { concurrency: 2 },
+    )(streamOf([1, 2, 3]));
+
+    const task = yield* spawn(function* () {
+      const subscription = yield* stream;
+      yield* subscription.next();
+    });
+    yield* started.operation;
+    yield* sleep(0);
+    yield* task.halt();
+
+    expect(log.sort()).toEqual(["halted 1", "halted 2"]);
+  });
+
+  it("rejects a concurrency that is not a positive integer", function* () {
+    expect(() =>
+      mapConcurrent(
+        function* (x: number) {
+          return x;
+        },
+        { concurrency: 0 },
+      ),
+    ).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  Err,
+  Ok,
+  type Operation,
+  type Result,
+  type Stream,
+  spawn,
+  withResolvers,
+} from "effection";
+
+/**
+ * Options for {@link mapConcurrent}.
+ */
+export interface MapConcurrentOptions {
+  /**
+   * The most items to map at the same time. Must be a positive integer.
+   */
+  concurrency: number;
+  /**
+   * Whether to yield mapped items in the order of the source stream. When
+   * `false`, items are yielded as soon as they are mapped. Defaults to `true`.
+   */
+  ordered?: boolean;
+}
+
+/**
+ * Transforms each item in the stream like {@link map}, but maps up to
+ * `concurrency` items at the same time. Items are pulled from the source
+ * ahead of the consumer to keep the mappers busy, but never more than
+ * `concurrency` items that have not been consumed yet.
+ *
+ * If `fn` throws, the error is thrown to the consumer in place of the item.
+ * When the consumer stops, mappers that are still running are halted.
+ *
+ * @param fn - The function to transform each item
+ * @param options.concurrency - The most items to map at the same time
+ * @param options.ordered - Whether to keep the order of the source stream
+ * @returns A stream transformer that maps items concurrently
+ *
+ * @example
+ * ```typescript
+ * import { mapConcurrent } from "@effectionx/stream-helpers";
+ *
+ * const pages = mapConcurrent(function* (url: string) {
+ *   return yield* request(url);
+ * }, { concurrency: 4 })(urls);
+ * ```
+ */
+export function mapConcurrent<A, B>(
+  fn: (value: A) => Operation<B>,
+  options: MapConcurrentOptions,
+): <TClose>(stream: Stream<A, TClose>) => Stream<B, TClose> {
+  const { concurrency, ordered = true } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError(
+      `mapConcurrent() concurrency must be a positive integer, but got ${concurrency}`,
+    );
+  }
+
+  return <TClose>(stream: Stream<A, TClose>): Stream<B, TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+      const mapped = new Map<number, Result<B>>();
+      let pulled = 0;
+      let settled = 0;
+      let delivered = 0;
+      let end: Result<TClose> | undefined;
+      let changed = withResolvers<void>();
+
+      function notify() {
+        changed.resolve();
+        changed = withResolvers<void>();
+      }
+
+      yield* spawn(function* () {
+        try {
+          while (true) {
+            while (pulled - delivered >= concurrency) {
+              yield* changed.operation;
+            }
+            const next = yield* subscription.next();
+            if (next.done) {
+              end = Ok(next.value);
+              break;
+            }
+            const index = pulled++;
+            yield* spawn(function* () {
+              let result: Result<B>;
+              try {
+                result = Ok(yield* fn(next.value));
+              } catch (error) {
+                result = Err(error as Error);
+              }
+              mapped.set(index, result);
+              settled++;
+              notify();
+            });
+          }
+        } catch (error) {
+          end = Err(error as Error);
+        }
+        notify();
+        // keep the mappers that are still running alive
+        while (settled < pulled) {
+          yield* changed.operation;
+        }
+      });
+
+      function take(): Result<B> | undefined {
+        const index = ordered ? delivered : mapped.keys().next().value;
+        if (index === undefined || !mapped.has(index)) {
+          return undefined;
+        }
+        const result = mapped.get(index) as Result<B>;
+        mapped.delete(index);
+        delivered++;
+        notify();
+        return result;
+      }
+
+      return {
+        *next() {
+          while (true) {
+            const result = take();
+            if (result) {
+              if (result.ok) {
+                return { done: false, value: result.value };
+              }
+              throw result.error;
+            }
+            if (end && delivered === pulled) {
+              if (end.ok) {
+                return { done: true, value: end.value };
+              }
+              throw end.error;
+            }
+            yield* changed.operation;
+          }
+        },
+      };
+    },
+  });
+}
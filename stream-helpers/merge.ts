@@ -0,0 +1,61 @@
+import type { Stream } from "effection";
+
+import { type StreamClose, type StreamItem, useSources } from "./sources.ts";
+
+/**
+ * Combines several streams into one that yields the items of all of them,
+ * in the order they arrive. Each source is read at most one item ahead of
+ * the consumer.
+ *
+ * The merged stream closes once every source has closed, with an array of
+ * their close values in the order the sources were given. If any source
+ * throws, the merged stream throws that error once the items that arrived
+ * before it have been consumed. When the consumer stops, every source
+ * subscription is torn down with it.
+ *
+ * @param streams - The streams to merge
+ * @returns A stream of the items of every source
+ *
+ * @example
+ * ```typescript
+ * import { merge } from "@effectionx/stream-helpers";
+ *
+ * // one log with the lines of both, as they are written
+ * const output = merge(process.stdout, process.stderr);
+ * ```
+ */
+export function merge<TStreams extends readonly Stream<unknown, unknown>[]>(
+  ...streams: TStreams
+): Stream<
+  StreamItem<TStreams[number]>,
+  { -readonly [K in keyof TStreams]: StreamClose<TStreams[K]> }
+> {
+  type T = StreamItem<TStreams[number]>;
+  type TClose = { -readonly [K in keyof TStreams]: StreamClose<TStreams[K]> };
+
+  return {
+    *[Symbol.iterator]() {
+      const sources = yield* useSources(streams);
+
+      return {
+        *next() {
+          while (true) {
+            if (sources.arrivals.length > 0) {
+              return {
+                done: false,
+                value: sources.take(sources.arrivals[0]) as T,
+              };
+            }
+            if (sources.failure) {
+              throw sources.failure.error;
+            }
+            if (sources.closed.every(Boolean)) {
+              return { done: true, value: [...sources.closes] as TClose };
+            }
+            yield* sources.changed();
+          }
+        },
+      };
+    },
+  };
+}
@@ -1,16 +1,40 @@
 export * from "./batch.ts";
 export * from "./valve.ts";
+export * from "./buffer.ts";
 export * from "./map.ts";
+export * from "./map-concurrent.ts";
 export * from "./filter.ts";
 export * from "./tracker.ts";
 export * from "./for-each.ts";
 export * from "./subject.ts";
+export * from "./replay-subject.ts";
+export * from "./share.ts";
+export * from "./tee.ts";
+export * from "./group-by.ts";
 export * from "./lines.ts";
 export * from "./stream-of.ts";
 export * from "./reduce.ts";
+export * from "./scan.ts";
+export * from "./pairwise.ts";
+export * from "./window.ts";
 export * from "./drain.ts";
 export * from "./first.ts";
 export * from "./last.ts";
 export * from "./take.ts";
 export * from "./take-while.ts";
 export * from "./take-until.ts";
+export * from "./skip.ts";
+export * from "./skip-while.ts";
+export * from "./distinct.ts";
+export * from "./distinct-until-changed.ts";
+export * from "./merge.ts";
+export * from "./zip.ts";
+export * from "./combine-latest.ts";
+export * from "./debounce.ts";
+export * from "./throttle.ts";
+export * from "./sample.ts";
+export * from "./delay.ts";
+export * from "./timeout.ts";
+export * from "./catch-error.ts";
+export * from "./retry-stream.ts";
+export * from "./on-error-resume-next.ts";
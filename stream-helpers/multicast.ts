@@ -0,0 +1,128 @@
+import {
+  Err,
+  Ok,
+  type Operation,
+  type Result,
+  type Stream,
+  createScope,
+  ensure,
+  withResolvers,
+} from "effection";
+
+import type { ReplaySubjectOptions } from "./replay-subject.ts";
+
+interface Subscriber<T, TClose> {
+  queue: Result<IteratorResult<T, TClose>>[];
+}
+
+/**
+ * Share one subscription to `stream` among every subscriber of the returned
+ * stream. The upstream is subscribed to when the first subscriber arrives,
+ * and torn down when the last one leaves; the next subscriber after that
+ * subscribes to it again.
+ *
+ * The upstream runs in a scope of its own, so that it can outlive any one of
+ * its subscribers.
+ */
+export function multicast<T, TClose>(
+  stream: Stream<T, TClose>,
+  replay: ReplaySubjectOptions = { bufferSize: 0 },
+): Stream<T, TClose> {
+  const {
+    bufferSize = Number.POSITIVE_INFINITY,
+    windowTime = Number.POSITIVE_INFINITY,
+  } = replay;
+  const subscribers = new Set<Subscriber<T, TClose>>();
+  let destroy: (() => Operation<void>) | undefined;
+  let buffer: { time: number; value: T }[] = [];
+  let final: Result<IteratorResult<T, TClose>> | undefined;
+  let changed = withResolvers<void>();
+
+  function notify() {
+    changed.resolve();
+    changed = withResolvers<void>();
+  }
+
+  function trim() {
+    const now = performance.now();
+    buffer = buffer.filter((item) => now - item.time < windowTime);
+    if (buffer.length > bufferSize) {
+      buffer = buffer.slice(buffer.length - bufferSize);
+    }
+  }
+
+  function publish(result: Result<IteratorResult<T, TClose>>) {
+    if (result.ok && !result.value.done) {
+      buffer.push({ time: performance.now(), value: result.value.value });
+      trim();
+    } else {
+      final = result;
+    }
+    for (const subscriber of subscribers) {
+      subscriber.queue.push(result);
+    }
+    notify();
+  }
+
+  function start() {
+    const [scope, destroyScope] = createScope();
+    destroy = destroyScope;
+    scope.run(function* () {
+      try {
+        const subscription = yield* stream;
+        while (true) {
+          const next = yield* subscription.next();
+          publish(Ok(next));
+          if (next.done) {
+            return;
+          }
+        }
+      } catch (error) {
+        publish(Err(error as Error));
+      }
+    });
+  }
+
+  return {
+    *[Symbol.iterator]() {
+      trim();
+      const subscriber: Subscriber<T, TClose> = {
+        queue: buffer.map(({ value }) => Ok({ done: false, value })),
+      };
+      if (final) {
+        subscriber.queue.push(final);
+      }
+      subscribers.add(subscriber);
+      if (!destroy) {
+        start();
+      }
+
+      yield* ensure(function* () {
+        subscribers.delete(subscriber);
+        if (subscribers.size === 0 && destroy) {
+          const destroyUpstream = destroy;
+          destroy = undefined;
+          buffer = [];
+          final = undefined;
+          yield* destroyUpstream();
+        }
+      });
+
+      return {
+        *next() {
+          while (subscriber.queue.length === 0) {
+            yield* changed.operation;
+          }
+          const result = subscriber.queue[0];
+          if (!result.ok) {
+            throw result.error;
+          }
+          if (!result.value.done) {
+            subscriber.queue.shift();
+          }
+          return result.value;
+        },
+      };
+    },
+  };
+}
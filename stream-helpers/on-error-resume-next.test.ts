@@ -0,0 +1,58 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+
+import { onErrorResumeNext } from "./on-error-resume-next.ts";
+import { streamOf } from "./stream-of.ts";
+import { collect, failing, logged } from "./test-helpers/streams.ts";
+
+describe("onErrorResumeNext", () => {
+  it("moves on to the next stream when one closes or fails", function* () {
+    const log: string[] = [];
+    const subscription = yield* onErrorResumeNext(
+      logged("second", log, failing([3], new Error("boom"))),
+      logged("third", log, streamOf([4, 5])),
+    )(logged("first", log, streamOf([1, 2])));
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1, 2, 3, 4, 5],
+      closeValue: undefined,
+    });
+    expect(log).toEqual([
+      "first subscribed",
+      "first torn down",
+      "second subscribed",
+      "second torn down",
+      "third subscribed",
+      "third torn down",
+    ]);
+  });
+
+  it("subscribes to each stream only when its turn comes", function* () {
+    const log: string[] = [];
+    const subscription = yield* onErrorResumeNext(
+      logged("second", log, streamOf([2])),
+    )(logged("first", log, streamOf([1])));
+
+    expect(yield* subscription.next()).toEqual({ done: false, value: 1 });
+    expect(log).toEqual(["first subscribed"]);
+
+    expect(yield* subscription.next()).toEqual({ done: false, value: 2 });
+    expect(log).toEqual([
+      "first subscribed",
+      "first torn down",
+      "second subscribed",
+    ]);
+  });
+
+  it("closes when the source fails and there is nothing after it", function* () {
+    const log: string[] = [];
+    const subscription = yield* onErrorResumeNext<number>()(
+      logged("source", log, failing([1], new Error("boom"))),
+    );
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1],
+      closeValue: undefined,
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import type { Stream } from "effection";
+
+import { type Unsubscribable, subscribe } from "./subscribe.ts";
+
+/**
+ * Continues with the next of `streams` whenever the current stream closes
+ * or fails, starting with the source stream. Errors are dropped, so the
+ * stream yields whatever items each of them produced until it stopped, and
+ * closes once the last one has stopped.
+ *
+ * Each stream is subscribed to when its turn comes, and torn down once it
+ * has stopped.
+ *
+ * @param streams - The streams to continue with, in order
+ * @returns A stream transformer that moves on to the next stream when one stops
+ *
+ * @example
+ * ```typescript
+ * import { onErrorResumeNext } from "@effectionx/stream-helpers";
+ *
+ * // try every mirror in turn, keeping whatever each of them sent
+ * const packages = onErrorResumeNext(secondMirror, thirdMirror)(firstMirror);
+ * ```
+ */
+export function onErrorResumeNext<T>(
+  ...streams: Stream<T, unknown>[]
+): (stream: Stream<T, unknown>) => Stream<T, void> {
+  return (stream) => ({
+    *[Symbol.iterator]() {
+      const queue = [stream, ...streams];
+      let current: Unsubscribable<T, unknown> | undefined;
+
+      return {
+        *next() {
+          while (true) {
+            if (!current) {
+              const next = queue.shift();
+              if (!next) {
+                return { done: true, value: undefined };
+              }
+              try {
+                current = yield* subscribe(next);
+              } catch {
+                continue;
+              }
+            }
+            try {
+              const next = yield* current.subscription.next();
+              if (!next.done) {
+                return next;
+              }
+            } catch {
+              // move on to the next stream
+            }
+            yield* current.unsubscribe();
+            current = undefined;
+          }
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+
+import { forEach } from "./for-each.ts";
+import { pairwise } from "./pairwise.ts";
+import { streamOf } from "./stream-of.ts";
+
+describe("pairwise", () => {
+  it("yields every item with the item before it", function* () {
+    const pairs: (readonly [number, number])[] = [];
+
+    const closeValue = yield* forEach(
+      function* (pair) {
+        pairs.push(pair);
+      },
+      pairwise<number>()(
+        streamOf(
+          (function* () {
+            yield 1;
+            yield 2;
+            yield 3;
+            return "end";
+          })(),
+        ),
+      ),
+    );
+
+    expect(pairs).toEqual([
+      [1, 2],
+      [2, 3],
+    ]);
+    expect(closeValue).toEqual("end");
+  });
+
+  it("yields nothing for a single item", function* () {
+    const pairs: (readonly [number, number])[] = [];
+
+    yield* forEach(
+      function* (pair) {
+        pairs.push(pair);
+      },
+      pairwise<number>()(streamOf([1])),
+    );
+
+    expect(pairs).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import type { Stream } from "effection";
+
+/**
+ * Yields each item of the source stream together with the item before it,
+ * as a `[previous, current]` pair. The first item is only yielded as the
+ * `previous` of the second one.
+ *
+ * The stream closes with the source's close value.
+ *
+ * @example
+ * ```ts
+ * import { pairwise, streamOf } from "@effectionx/stream-helpers";
+ *
+ * pairwise<number>()(streamOf([1, 2, 3])) //=> yields [1, 2], [2, 3]
+ * ```
+ *
+ * @returns A stream transformer that yields consecutive pairs of items
+ */
+export function pairwise<T>(): <TClose>(
+  stream: Stream<T, TClose>,
+) => Stream<readonly [T, T], TClose> {
+  return <TClose>(
+    stream: Stream<T, TClose>,
+  ): Stream<readonly [T, T], TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+      let previous: { value: T } | undefined;
+
+      return {
+        *next() {
+          while (true) {
+            const next = yield* subscription.next();
+            if (next.done) {
+              return next;
+            }
+            const last = previous;
+            previous = { value: next.value };
+            if (last) {
+              return {
+                done: false,
+                value: [last.value, next.value] as const,
+              };
+            }
+          }
+        },
+      };
+    },
+  });
+}
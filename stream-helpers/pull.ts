@@ -0,0 +1,68 @@
+import { timebox } from "@effectionx/timebox";
+import {
+  Err,
+  Ok,
+  type Operation,
+  type Result,
+  type Scope,
+  type Subscription,
+  type Task,
+} from "effection";
+
+/**
+ * Pulls items from a subscription with a time limit, for the operators that
+ * need to wait for the next item only for so long.
+ */
+export interface Pull<T, TClose> {
+  /**
+   * Get the next item of the subscription. If it takes longer than `limit`
+   * milliseconds, return `undefined` instead; the pull keeps going and its
+   * item is returned by the next call, so no item is lost.
+   */
+  next(limit?: number): Operation<IteratorResult<T, TClose> | undefined>;
+}
+
+/**
+ * Create a {@link Pull} for `subscription`. Pulls are spawned in `scope`,
+ * which should be the scope that subscribed, rather than in the scope that
+ * happens to call `next()`: a consumer may give up on `next()`, e.g. with a
+ * timeout, and that must not halt the pull that a later call picks up.
+ */
+export function createPull<T, TClose>(
+  scope: Scope,
+  subscription: Subscription<T, TClose>,
+): Pull<T, TClose> {
+  let pending: Task<Result<IteratorResult<T, TClose>>> | undefined;
+
+  return {
+    *next(limit) {
+      if (!pending) {
+        // errors are returned rather than thrown, so that a failing pull
+        // does not crash the scope that subscribed
+        pending = yield* scope.spawn(function* () {
+          try {
+            return Ok(yield* subscription.next());
+          } catch (error) {
+            return Err(error as Error);
+          }
+        });
+      }
+      const task = pending;
+      let result: Result<IteratorResult<T, TClose>>;
+      if (limit === undefined) {
+        result = yield* task;
+      } else {
+        const timeboxed = yield* timebox(Math.max(limit, 0), () => task);
+        if (timeboxed.timeout) {
+          return undefined;
+        }
+        result = timeboxed.value;
+      }
+      pending = undefined;
+      if (result.ok) {
+        return result.value;
+      }
+      throw result.error;
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { createChannel, sleep } from "effection";
+
+import { createReplaySubject } from "./replay-subject.ts";
+
+describe("createReplaySubject", () => {
+  it("replays the latest `bufferSize` items to new subscribers", function* () {
+    const source = createChannel<number, void>();
+    const downstream = createReplaySubject<number>({ bufferSize: 2 })(source);
+
+    const first = yield* downstream;
+    yield* sleep(0);
+    yield* source.send(1);
+    yield* source.send(2);
+    yield* source.send(3);
+
+    expect((yield* first.next()).value).toEqual(1);
+
+    const late = yield* downstream;
+    yield* source.send(4);
+
+    expect((yield* late.next()).value).toEqual(2);
+    expect((yield* late.next()).value).toEqual(3);
+    expect((yield* late.next()).value).toEqual(4);
+  });
+
+  it("only replays items that arrived within `windowTime`", function* () {
+    const source = createChannel<number, void>();
+    const downstream = createReplaySubject<number>({ windowTime: 20 })(source);
+
+    yield* downstream;
+    yield* sleep(0);
+    yield* source.send(1);
+    yield* sleep(40);
+    yield* source.send(2);
+
+    const late = yield* downstream;
+    expect((yield* late.next()).value).toEqual(2);
+  });
+
+  it("replays the close value to subscribers that arrive after it", function* () {
+    const source = createChannel<number, string>();
+    const downstream = createReplaySubject<number>()(source);
+
+    yield* downstream;
+    yield* sleep(0);
+    yield* source.send(1);
+    yield* source.close("end");
+
+    const late = yield* downstream;
+    expect(yield* late.next()).toEqual({ done: false, value: 1 });
+    expect(yield* late.next()).toEqual({ done: true, value: "end" });
+    expect(yield* late.next()).toEqual({ done: true, value: "end" });
+  });
+
+  it("keeps a separate buffer for each stream it is applied to", function* () {
+    const letters = createChannel<string, void>();
+    const digits = createChannel<string, void>();
+    const subject = createReplaySubject<string>();
+    const replayLetters = subject(letters);
+    const replayDigits = subject(digits);
+
+    yield* replayLetters;
+    yield* replayDigits;
+    yield* sleep(0);
+    yield* letters.send("a");
+    yield* digits.send("1");
+
+    expect((yield* (yield* replayLetters).next()).value).toEqual("a");
+    expect((yield* (yield* replayDigits).next()).value).toEqual("1");
+  });
+});
@@ -0,0 +1,53 @@
+import type { Stream } from "effection";
+
+import { multicast } from "./multicast.ts";
+
+/**
+ * Options for {@link createReplaySubject}.
+ */
+export interface ReplaySubjectOptions {
+  /**
+   * The most items to replay to a new subscriber. Defaults to no limit.
+   */
+  readonly bufferSize?: number;
+  /**
+   * Only replay items that arrived within this many milliseconds. Defaults
+   * to no limit.
+   */
+  readonly windowTime?: number;
+}
+
+/**
+ * Converts any stream into a multicast stream that replays the latest
+ * items to new subscribers. It's designed to be analogous in function to
+ * [RxJS ReplaySubject](https://www.learnrxjs.io/learn-rxjs/subjects/replaysubject).
+ *
+ * Like {@link share}, the source is subscribed to once, when the first
+ * subscriber arrives, and torn down when the last one leaves. A subscriber
+ * that arrives after the source closed receives the replayed items and then
+ * the close value. Each stream that the subject is applied to has a replay
+ * buffer of its own.
+ *
+ * As with {@link share}, the source is not paced by the subscribers, and a
+ * subscriber that falls behind holds every item it has not taken yet. Read
+ * through {@link buffer} to bound it.
+ *
+ * @param options.bufferSize - The most items to replay
+ * @param options.windowTime - Only replay items this recent, in milliseconds
+ * @returns A function that takes a stream and returns a multicast stream
+ *
+ * @example
+ * ```ts
+ * const subject = createReplaySubject<string>({ bufferSize: 100 });
+ * const output = subject(process.stdout);
+ *
+ * const sub1 = yield* output; // subscribes to stdout
+ * // ...
+ * const sub2 = yield* output; // gets up to the last 100 lines, then new ones
+ * ```
+ */
+export function createReplaySubject<T>(
+  options: ReplaySubjectOptions = {},
+): <TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  return (stream) => multicast(stream, options);
+}
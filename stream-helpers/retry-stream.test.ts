@@ -0,0 +1,166 @@
+import { backoff } from "@effectionx/fx";
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { type Stream, ensure } from "effection";
+
+import { retryStream } from "./retry-stream.ts";
+import { collect } from "./test-helpers/streams.ts";
+
+/**
+ * A stream that yields `items` on every subscription, then fails on the
+ * first `failures` subscriptions and closes with `"done"` after that. It
+ * logs when it is subscribed to and torn down.
+ */
+function flaky<T>(
+  log: string[],
+  items: T[],
+  failures: number,
+): Stream<T, string> {
+  let subscriptions = 0;
+  return {
+    *[Symbol.iterator]() {
+      const attempt = ++subscriptions;
+      log.push(`subscribed ${attempt}`);
+      yield* ensure(() => {
+        log.push(`torn down ${attempt}`);
+      });
+      let index = 0;
+      return {
+        *next() {
+          if (index < items.length) {
+            return { done: false, value: items[index++] };
+          }
+          if (attempt <= failures) {
+            throw new Error(`failure ${attempt}`);
+          }
+          return { done: true, value: "done" };
+        },
+      };
+    },
+  };
+}
+
+describe("retryStream", () => {
+  it("re-subscribes to the source when it fails", function* () {
+    const log: string[] = [];
+    const subscription = yield* retryStream({
+      backoff: backoff.constant(0),
+    })(flaky(log, [1, 2], 1));
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1, 2, 1, 2],
+      closeValue: "done",
+    });
+    expect(log).toEqual(["subscribed 1", "torn down 1", "subscribed 2"]);
+  });
+
+  it("retries subscribes that fail", function* () {
+    const log: string[] = [];
+    let subscribes = 0;
+    const source = flaky(log, [1], 1);
+    const connecting: Stream<number, string> = {
+      *[Symbol.iterator]() {
+        subscribes += 1;
+        if (subscribes === 2 || subscribes === 3) {
+          throw new Error("connect failed");
+        }
+        return yield* source;
+      },
+    };
+
+    const subscription = yield* retryStream({
+      backoff: backoff.constant(0),
+      maxAttempts: 5,
+    })(connecting);
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1, 1],
+      closeValue: "done",
+    });
+    expect(subscribes).toEqual(4);
+  });
+
+  it("retries a first subscribe that fails", function* () {
+    let subscribes = 0;
+    const connecting: Stream<number, string> = {
+      *[Symbol.iterator]() {
+        subscribes += 1;
+        if (subscribes === 1) {
+          throw new Error("connect failed");
+        }
+        return yield* flaky([], [1], 0);
+      },
+    };
+
+    const subscription = yield* retryStream({
+      backoff: backoff.constant(0),
+    })(connecting);
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1],
+      closeValue: "done",
+    });
+    expect(subscribes).toEqual(2);
+  });
+
+  it("fails with the last error once the policy gives up", function* () {
+    const log: string[] = [];
+    const subscription = yield* retryStream({
+      backoff: backoff.constant(0),
+      maxAttempts: 3,
+    })(flaky(log, [], 5));
+
+    let error: unknown;
+    try {
+      yield* subscription.next();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toMatchObject({ message: "failure 3" });
+    expect(log).toEqual([
+      "subscribed 1",
+      "torn down 1",
+      "subscribed 2",
+      "torn down 2",
+      "subscribed 3",
+      "torn down 3",
+    ]);
+  });
+
+  it("counts attempts from the last item", function* () {
+    const log: string[] = [];
+    const attempts: number[] = [];
+    const subscription = yield* retryStream({
+      backoff: (attempt) => {
+        attempts.push(attempt);
+        return 0;
+      },
+      maxAttempts: 2,
+    })(flaky(log, ["item"], 3));
+
+    expect(yield* collect(subscription)).toEqual({
+      values: ["item", "item", "item", "item"],
+      closeValue: "done",
+    });
+    expect(attempts).toEqual([1, 1, 1]);
+  });
+
+  it("does not retry errors that are not retryable", function* () {
+    const log: string[] = [];
+    const subscription = yield* retryStream({
+      backoff: backoff.constant(0),
+      retryable: (error) => !(error as Error).message.startsWith("failure"),
+    })(flaky(log, [1], 1));
+
+    expect(yield* subscription.next()).toEqual({ done: false, value: 1 });
+
+    let error: unknown;
+    try {
+      yield* subscription.next();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toMatchObject({ message: "failure 1" });
+    expect(log).toEqual(["subscribed 1", "torn down 1"]);
+  });
+});
@@ -0,0 +1,78 @@
+import { type RetryPolicy, createRetrySchedule } from "@effectionx/fx";
+import { type Operation, type Stream, sleep } from "effection";
+
+import { type Unsubscribable, subscribe } from "./subscribe.ts";
+
+/**
+ * Re-subscribes to the source stream when it fails, waiting between
+ * attempts as told by `policy`, and carries on with the items of the new
+ * subscription. The failed subscription is torn down first. Failing to
+ * subscribe, like a socket that cannot connect, is retried the same way.
+ * Items that were yielded before the failure are not yielded again by this
+ * operator, but a source that starts over when subscribed to will produce
+ * them again.
+ *
+ * The policy is the one of `retry()` from `@effectionx/fx`. Attempts and
+ * elapsed time are counted from the last item, so a long-lived stream that
+ * fails once in a while is retried every time. When the policy gives up,
+ * the stream throws the last error.
+ *
+ * @param policy - How often and how long to retry
+ * @returns A stream transformer that re-subscribes to a failing source
+ *
+ * @example
+ * ```typescript
+ * import { backoff } from "@effectionx/fx";
+ * import { retryStream } from "@effectionx/stream-helpers";
+ *
+ * const messages = retryStream({
+ *   backoff: backoff.exponential({ initial: 500, max: 30_000 }),
+ *   maxAttempts: 10,
+ * })(socketMessages);
+ * ```
+ */
+export function retryStream(
+  policy: RetryPolicy = {},
+): <T, TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  return <T, TClose>(stream: Stream<T, TClose>): Stream<T, TClose> => ({
+    *[Symbol.iterator]() {
+      const schedule = createRetrySchedule(policy);
+
+      function* connect(): Operation<Unsubscribable<T, TClose>> {
+        while (true) {
+          try {
+            return yield* subscribe(stream);
+          } catch (error) {
+            yield* wait(error);
+          }
+        }
+      }
+
+      function* wait(error: unknown): Operation<void> {
+        const next = schedule.fail(error);
+        if (!next) {
+          throw error;
+        }
+        yield* sleep(next.delay);
+      }
+
+      let source = yield* connect();
+
+      return {
+        *next() {
+          while (true) {
+            try {
+              const next = yield* source.subscription.next();
+              schedule.reset();
+              return next;
+            } catch (error) {
+              yield* source.unsubscribe();
+              yield* wait(error);
+              source = yield* connect();
+            }
+          }
+        },
+      };
+    },
+  });
+}
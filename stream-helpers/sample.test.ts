@@ -0,0 +1,60 @@
+import { timebox } from "@effectionx/timebox";
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { createChannel, spawn } from "effection";
+
+import { sample } from "./sample.ts";
+import { collect, produce } from "./test-helpers/streams.ts";
+
+describe("sample", () => {
+  it("yields the latest item of every period that had one", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* sample(40)(source);
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [0, 2],
+          // nothing new for the period ending at 80ms
+          [100, 3],
+          // closes before the next sample is taken
+          [40, 4],
+        ],
+        "end",
+      ),
+    );
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [2, 3],
+      closeValue: "end",
+    });
+  });
+
+  it("keeps reading after a read is given up on", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* sample(40)(source);
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [0, 2],
+          [60, 3],
+          [40, 4],
+        ],
+        "end",
+      ),
+    );
+
+    const first = yield* timebox(5, () => subscription.next());
+    expect(first.timeout).toEqual(true);
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [2, 3],
+      closeValue: "end",
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { type Stream, useScope } from "effection";
+
+import { createPull } from "./pull.ts";
+
+/**
+ * Yields the latest item of the source stream every `ms` milliseconds,
+ * counted from when the stream is subscribed to. Nothing is yielded for a
+ * period in which no new item arrived.
+ *
+ * When the source closes, the stream closes with the source's close value
+ * right away, and an item that arrived since the last sample is dropped.
+ *
+ * @example
+ * ```typescript
+ * import { sample } from "@effectionx/stream-helpers";
+ *
+ * // report the progress once a second
+ * const reports = sample(1000)(progress);
+ * ```
+ *
+ * @param ms - How often to yield the latest item
+ * @returns A stream transformer that yields the latest item periodically
+ */
+export function sample(
+  ms: number,
+): <T, TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  return <T, TClose>(stream: Stream<T, TClose>): Stream<T, TClose> => ({
+    *[Symbol.iterator]() {
+      const pull = createPull(yield* useScope(), yield* stream);
+      let tick = performance.now() + ms;
+      let latest: { value: T } | undefined;
+
+      return {
+        *next() {
+          while (true) {
+            const now = performance.now();
+            if (now >= tick) {
+              tick += ms * (Math.floor((now - tick) / ms) + 1);
+              if (latest) {
+                const { value } = latest;
+                latest = undefined;
+                return { done: false, value };
+              }
+              continue;
+            }
+            const next = yield* pull.next(tick - now);
+            if (!next) {
+              continue;
+            }
+            if (next.done) {
+              return next;
+            }
+            latest = { value: next.value };
+          }
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,49 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import type { Operation } from "effection";
+
+import { forEach } from "./for-each.ts";
+import { scan } from "./scan.ts";
+import { streamOf } from "./stream-of.ts";
+
+describe("scan", () => {
+  it("yields the accumulated value after every item", function* () {
+    const max = scan(function* (
+      highest: number,
+      item: number,
+    ): Operation<number> {
+      return Math.max(highest, item);
+    }, 0);
+
+    const values: number[] = [];
+    yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      max(streamOf([1, 3, 2])),
+    );
+
+    expect(values).toEqual([1, 3, 3]);
+  });
+
+  it("closes with the close value of the source", function* () {
+    const stream = streamOf(
+      (function* () {
+        yield 1;
+        yield 2;
+        return "end";
+      })(),
+    );
+    const sum = scan(function* (total: number, item: number) {
+      return total + item;
+    }, 10);
+
+    const values: number[] = [];
+    const closeValue = yield* forEach(function* (value) {
+      values.push(value);
+    }, sum(stream));
+
+    expect(values).toEqual([11, 13]);
+    expect(closeValue).toEqual("end");
+  });
+});
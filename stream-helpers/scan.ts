@@ -0,0 +1,46 @@
+import type { Operation, Stream } from "effection";
+
+/**
+ * Transforms a stream by applying each item to an accumulated value, and
+ * passing every new accumulated value downstream.
+ *
+ * Unlike {@link reduce}, which skips items that leave the accumulated value
+ * unchanged, `scan` yields once for every item of the source stream.
+ *
+ * @example
+ * ```ts
+ * import { scan, streamOf } from "@effectionx/stream-helpers";
+ *
+ * const max = scan(function* (highest: number, item: number) {
+ *   return Math.max(highest, item);
+ * }, 0);
+ *
+ * max(streamOf([1, 3, 2])) //=> yields 1, 3, 3
+ * ```
+ *
+ * @param fn - The operation to apply a single item to the accumulated value
+ * @param initial - The accumulated value before the first item
+ * @returns A stream transformer that yields the accumulated value after each item
+ */
+export function scan<T, TAcc>(
+  fn: (current: TAcc, item: T) => Operation<TAcc>,
+  initial: TAcc,
+): <TClose>(stream: Stream<T, TClose>) => Stream<TAcc, TClose> {
+  return (upstream) => ({
+    *[Symbol.iterator]() {
+      let current = initial;
+      let subscription = yield* upstream;
+
+      return {
+        *next() {
+          let next = yield* subscription.next();
+          if (next.done) {
+            return next;
+          }
+          current = yield* fn(current, next.value);
+          return { done: false, value: current } as const;
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,105 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import {
+  type Stream,
+  createChannel,
+  sleep,
+  spawn,
+  suspend,
+  withResolvers,
+} from "effection";
+
+import { share } from "./share.ts";
+import { collect, logged } from "./test-helpers/streams.ts";
+
+describe("share", () => {
+  it("subscribes to the source once for every subscriber", function* () {
+    const log: string[] = [];
+    const source = createChannel<number, string>();
+    const shared = share()(logged("source", log, source));
+
+    const first = yield* shared;
+    const second = yield* shared;
+    yield* sleep(0);
+
+    yield* source.send(1);
+    yield* source.send(2);
+    yield* source.close("end");
+
+    expect(yield* collect(first)).toEqual({
+      values: [1, 2],
+      closeValue: "end",
+    });
+    expect(yield* collect(second)).toEqual({
+      values: [1, 2],
+      closeValue: "end",
+    });
+    // once, and torn down once it closed
+    expect(log).toEqual(["source subscribed", "source torn down"]);
+  });
+
+  it("tears down the source when the last subscriber leaves", function* () {
+    const log: string[] = [];
+    const source = createChannel<number, string>();
+    const shared = share()(logged("source", log, source));
+
+    const subscribe = () =>
+      spawn(function* () {
+        yield* shared;
+        yield* suspend();
+      });
+
+    const first = yield* subscribe();
+    const second = yield* subscribe();
+    yield* sleep(0);
+
+    yield* first.halt();
+    expect(log).toEqual(["source subscribed"]);
+
+    yield* second.halt();
+    expect(log).toEqual(["source subscribed", "source torn down"]);
+
+    const third = yield* subscribe();
+    yield* sleep(0);
+    expect(log).toEqual([
+      "source subscribed",
+      "source torn down",
+      "source subscribed",
+    ]);
+    yield* third.halt();
+  });
+
+  it("throws the error of the source to every subscriber", function* () {
+    const failing: Stream<number, void> = {
+      *[Symbol.iterator]() {
+        return {
+          *next() {
+            throw new Error("connection lost");
+          },
+        };
+      },
+    };
+    const shared = share()(failing);
+    const errors = withResolvers<string[]>();
+    const messages: string[] = [];
+
+    for (let i = 0; i < 2; i++) {
+      yield* spawn(function* () {
+        const subscription = yield* shared;
+        try {
+          yield* subscription.next();
+        } catch (error) {
+          messages.push((error as Error).message);
+          if (messages.length === 2) {
+            errors.resolve(messages);
+          }
+        }
+      });
+    }
+
+    expect(yield* errors.operation).toEqual([
+      "connection lost",
+      "connection lost",
+    ]);
+  });
+});
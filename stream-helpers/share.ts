@@ -0,0 +1,40 @@
+import type { Stream } from "effection";
+
+import { multicast } from "./multicast.ts";
+
+/**
+ * Converts any stream into a multicast stream that subscribes to the
+ * source once and delivers every item to all of its current subscribers.
+ *
+ * The source is subscribed to when the first subscriber arrives, and torn
+ * down when the last one leaves; a subscriber that arrives after that
+ * subscribes to the source again. The source runs in a scope of its own so
+ * that it can outlive any one subscriber, which means it does not see the
+ * context of the scope it was subscribed from.
+ *
+ * If the source throws, every subscriber throws the same error.
+ *
+ * The source is read as fast as it produces, and is not paced by the
+ * subscribers: each subscriber holds every item it has not taken yet, with
+ * no limit. A subscriber that may fall behind should read through
+ * {@link buffer} to bound what it holds, or use {@link tee} to pace the
+ * source by the slowest consumer instead.
+ *
+ * @returns A function that takes a stream and returns a multicast stream
+ *
+ * @example
+ * ```ts
+ * import { share } from "@effectionx/stream-helpers";
+ *
+ * // both consumers read the same output of a single process
+ * const output = share()(process.stdout);
+ *
+ * yield* spawn(() => forEach(writeToLog, output));
+ * yield* spawn(() => forEach(checkReady, output));
+ * ```
+ */
+export function share(): <T, TClose>(
+  stream: Stream<T, TClose>,
+) => Stream<T, TClose> {
+  return (stream) => multicast(stream);
+}
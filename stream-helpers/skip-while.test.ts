@@ -0,0 +1,88 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { pipe } from "remeda";
+
+import { forEach } from "./for-each.ts";
+import { skipWhile } from "./skip-while.ts";
+import { streamOf } from "./stream-of.ts";
+
+describe("skipWhile", () => {
+  it("should skip values while predicate is true", function* () {
+    const values: number[] = [];
+
+    const closeValue = yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      skipWhile((x: number) => x < 3)(
+        streamOf(
+          (function* () {
+            yield 1;
+            yield 2;
+            yield 3;
+            yield 4;
+            return "done";
+          })(),
+        ),
+      ),
+    );
+
+    expect(values).toEqual([3, 4]);
+    expect(closeValue).toBe("done");
+  });
+
+  it("should not check the predicate after it fails", function* () {
+    const values: number[] = [];
+    const checked: number[] = [];
+
+    yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      skipWhile((x: number) => {
+        checked.push(x);
+        return x < 3;
+      })(streamOf([1, 3, 1, 2])),
+    );
+
+    expect(values).toEqual([3, 1, 2]);
+    expect(checked).toEqual([1, 3]);
+  });
+
+  it("should return source close value if every value is skipped", function* () {
+    const values: number[] = [];
+
+    const stream = streamOf(
+      (function* () {
+        yield 1;
+        yield 2;
+        return "early-close";
+      })(),
+    );
+
+    const closeValue = yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      skipWhile((x: number) => x < 10)(stream),
+    );
+
+    expect(values).toEqual([]);
+    expect(closeValue).toBe("early-close");
+  });
+
+  it("should work with pipe", function* () {
+    const values: number[] = [];
+
+    const stream = pipe(
+      streamOf([1, 2, 3, 4, 5]),
+      skipWhile((x) => x < 4),
+    );
+
+    yield* forEach(function* (value) {
+      values.push(value);
+    }, stream);
+
+    expect(values).toEqual([4, 5]);
+  });
+});
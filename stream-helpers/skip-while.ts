@@ -0,0 +1,50 @@
+import type { Stream } from "effection";
+
+/**
+ * Creates a stream transformer that drops values from the source stream
+ * while the predicate returns true. Once the predicate returns false, that
+ * value and every value after it are yielded, without calling the predicate
+ * again.
+ *
+ * The resulting stream closes with the source's close value.
+ *
+ * @template T - The type of items in the stream
+ * @template TClose - The type of the close value
+ * @param predicate - A function that returns true to keep skipping values
+ * @returns A stream transformer that yields values from the first one the
+ * predicate rejects
+ *
+ * @example
+ * ```typescript
+ * import { skipWhile, streamOf } from "@effectionx/stream-helpers";
+ *
+ * const stream = streamOf([1, 2, 3, 1, 2]);
+ * // yields 3, 1, 2
+ * const rest = skipWhile((x: number) => x < 3)(stream);
+ * ```
+ */
+export function skipWhile<T>(
+  predicate: (item: T) => boolean,
+): <TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  return <TClose>(stream: Stream<T, TClose>): Stream<T, TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+      let skipping = true;
+
+      return {
+        *next() {
+          while (true) {
+            const result = yield* subscription.next();
+            if (result.done || !skipping) {
+              return result;
+            }
+            if (!predicate(result.value)) {
+              skipping = false;
+              return result;
+            }
+          }
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,76 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { pipe } from "remeda";
+
+import { forEach } from "./for-each.ts";
+import { skip } from "./skip.ts";
+import { streamOf } from "./stream-of.ts";
+
+describe("skip", () => {
+  it("should yield the values after the first n", function* () {
+    const values: number[] = [];
+
+    const closeValue = yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      skip<number>(2)(
+        streamOf(
+          (function* () {
+            yield 1;
+            yield 2;
+            yield 3;
+            yield 4;
+            return "done";
+          })(),
+        ),
+      ),
+    );
+
+    expect(values).toEqual([3, 4]);
+    expect(closeValue).toBe("done");
+  });
+
+  it("should return source close value if stream ends before n values", function* () {
+    const values: number[] = [];
+
+    const stream = streamOf(
+      (function* () {
+        yield 1;
+        return "early-close";
+      })(),
+    );
+
+    const closeValue = yield* forEach(function* (value) {
+      values.push(value);
+    }, skip<number>(3)(stream));
+
+    expect(values).toEqual([]);
+    expect(closeValue).toBe("early-close");
+  });
+
+  it("should yield every value when n is 0", function* () {
+    const values: number[] = [];
+
+    yield* forEach(
+      function* (value) {
+        values.push(value);
+      },
+      skip<number>(0)(streamOf([1, 2, 3])),
+    );
+
+    expect(values).toEqual([1, 2, 3]);
+  });
+
+  it("should work with pipe", function* () {
+    const values: number[] = [];
+
+    const stream = pipe(streamOf([1, 2, 3, 4, 5]), skip(3));
+
+    yield* forEach(function* (value) {
+      values.push(value);
+    }, stream);
+
+    expect(values).toEqual([4, 5]);
+  });
+});
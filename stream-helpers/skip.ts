@@ -0,0 +1,45 @@
+import type { Stream } from "effection";
+
+/**
+ * Creates a stream transformer that drops the first `n` values from the
+ * source stream, and yields every value after them.
+ *
+ * The resulting stream closes with the source's close value, even if the
+ * source closes before yielding `n` values.
+ *
+ * @template T - The type of items in the stream
+ * @template TClose - The type of the close value
+ * @param n - The number of values to skip
+ * @returns A stream transformer that yields all but the first `n` values
+ *
+ * @example
+ * ```typescript
+ * import { skip, streamOf } from "@effectionx/stream-helpers";
+ *
+ * const stream = streamOf([1, 2, 3, 4, 5]);
+ * // yields 3, 4, 5
+ * const rest = skip(2)(stream);
+ * ```
+ */
+export function skip<T>(
+  n: number,
+): <TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  return <TClose>(stream: Stream<T, TClose>): Stream<T, TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+      let skipped = 0;
+
+      return {
+        *next() {
+          while (true) {
+            const result = yield* subscription.next();
+            if (result.done || skipped >= n) {
+              return result;
+            }
+            skipped++;
+          }
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,104 @@
+import { type Operation, type Stream, spawn, withResolvers } from "effection";
+
+/**
+ * The type of the items of a stream.
+ */
+export type StreamItem<S> = S extends Stream<infer T, unknown> ? T : never;
+
+/**
+ * The type of the close value of a stream.
+ */
+export type StreamClose<S> = S extends Stream<unknown, infer TClose>
+  ? TClose
+  : never;
+
+/**
+ * Several streams being read at the same time, for the operators that
+ * combine them. Each stream is read into a slot that holds one item, and is
+ * not read again until that item is taken, so no stream gets ahead of the
+ * consumer by more than one item.
+ */
+export interface Sources {
+  /** The item in each slot, if any. */
+  readonly slots: ({ value: unknown } | undefined)[];
+  /** The indexes of the filled slots, in the order they were filled. */
+  readonly arrivals: number[];
+  /** Whether each stream has closed. */
+  readonly closed: boolean[];
+  /** The close value of each stream that has closed. */
+  readonly closes: unknown[];
+  /** The first error thrown by any of the streams. */
+  readonly failure: { error: unknown } | undefined;
+  /** Empty a slot, so that its stream is read again. */
+  take(index: number): unknown;
+  /** Wait until anything above changes. */
+  changed(): Operation<void>;
+}
+
+/**
+ * Subscribe to every stream, and read them in the background for as long as
+ * the current scope lasts. The subscriptions are torn down with the scope.
+ */
+export function* useSources(
+  streams: readonly Stream<unknown, unknown>[],
+): Operation<Sources> {
+  const slots: Sources["slots"] = streams.map(() => undefined);
+  const arrivals: number[] = [];
+  const closed = streams.map(() => false);
+  const closes: unknown[] = streams.map(() => undefined);
+  let failure: Sources["failure"];
+  let changed = withResolvers<void>();
+
+  function notify() {
+    changed.resolve();
+    changed = withResolvers<void>();
+  }
+
+  const subscriptions = [];
+  for (const stream of streams) {
+    subscriptions.push(yield* stream);
+  }
+
+  for (const [index, subscription] of subscriptions.entries()) {
+    yield* spawn(function* () {
+      try {
+        while (true) {
+          const next = yield* subscription.next();
+          if (next.done) {
+            closed[index] = true;
+            closes[index] = next.value;
+            notify();
+            return;
+          }
+          slots[index] = { value: next.value };
+          arrivals.push(index);
+          notify();
+          while (slots[index]) {
+            yield* changed.operation;
+          }
+        }
+      } catch (error) {
+        failure ??= { error };
+        notify();
+      }
+    });
+  }
+
+  return {
+    slots,
+    arrivals,
+    closed,
+    closes,
+    get failure() {
+      return failure;
+    },
+    take(index) {
+      const slot = slots[index];
+      slots[index] = undefined;
+      arrivals.splice(arrivals.indexOf(index), 1);
+      notify();
+      return slot?.value;
+    },
+    changed: () => changed.operation,
+  };
+}
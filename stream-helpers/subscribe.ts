@@ -0,0 +1,45 @@
+import {
+  Err,
+  Ok,
+  type Operation,
+  type Result,
+  type Stream,
+  type Subscription,
+  spawn,
+  suspend,
+  withResolvers,
+} from "effection";
+
+/**
+ * A subscription that can be torn down before the scope it was made in ends.
+ */
+export interface Unsubscribable<T, TClose> {
+  subscription: Subscription<T, TClose>;
+  /** Tear down the subscription and everything it set up. */
+  unsubscribe(): Operation<void>;
+}
+
+/**
+ * Subscribe to `stream` in a task of its own, so that operators which move
+ * from one subscription to the next can tear down the ones they are done
+ * with, instead of keeping them until the consumer's scope ends.
+ */
+export function* subscribe<T, TClose>(
+  stream: Stream<T, TClose>,
+): Operation<Unsubscribable<T, TClose>> {
+  const subscribed = withResolvers<Result<Subscription<T, TClose>>>();
+  const task = yield* spawn(function* () {
+    try {
+      subscribed.resolve(Ok(yield* stream));
+    } catch (error) {
+      subscribed.resolve(Err(error as Error));
+      return;
+    }
+    yield* suspend();
+  });
+  const result = yield* subscribed.operation;
+  if (!result.ok) {
+    throw result.error;
+  }
+  return { subscription: result.value, unsubscribe: () => task.halt() };
+}
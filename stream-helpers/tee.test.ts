@@ -0,0 +1,128 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { type Stream, sleep, spawn } from "effection";
+
+import { streamOf } from "./stream-of.ts";
+import { tee } from "./tee.ts";
+import { collect } from "./test-helpers/streams.ts";
+
+function counted(
+  count: number,
+  pulls: { count: number },
+): Stream<number, string> {
+  return streamOf(
+    (function* () {
+      for (let i = 1; i <= count; i++) {
+        pulls.count = i;
+        yield i;
+      }
+      return "end";
+    })(),
+  );
+}
+
+describe("tee", () => {
+  it("gives every item to every consumer", function* () {
+    const [first, second] = yield* tee({ consumers: 2 })(
+      streamOf(
+        (function* () {
+          yield 1;
+          yield 2;
+          yield 3;
+          return "end";
+        })(),
+      ),
+    );
+
+    const a = yield* spawn(function* () {
+      return yield* collect(yield* first);
+    });
+    const b = yield* spawn(function* () {
+      return yield* collect(yield* second);
+    });
+
+    expect(yield* a).toEqual({ values: [1, 2, 3], closeValue: "end" });
+    expect(yield* b).toEqual({ values: [1, 2, 3], closeValue: "end" });
+  });
+
+  it("paces the source by the slowest consumer", function* () {
+    const pulls = { count: 0 };
+    const [fast, slow] = yield* tee({ consumers: 2 })(counted(5, pulls));
+
+    const fastSubscription = yield* fast;
+    const slowSubscription = yield* slow;
+
+    expect(yield* fastSubscription.next()).toEqual({ done: false, value: 1 });
+    const waiting = yield* spawn(() => fastSubscription.next());
+    yield* sleep(0);
+    expect(pulls.count).toEqual(1);
+
+    expect(yield* slowSubscription.next()).toEqual({ done: false, value: 1 });
+    expect(yield* waiting).toEqual({ done: false, value: 2 });
+    expect(pulls.count).toEqual(2);
+  });
+
+  it("stops waiting for a consumer that left", function* () {
+    const [first, second] = yield* tee({ consumers: 2 })(
+      counted(3, { count: 0 }),
+    );
+
+    const leaving = yield* spawn(function* () {
+      const subscription = yield* second;
+      yield* subscription.next();
+    });
+    yield* leaving;
+
+    expect(yield* collect(yield* first)).toEqual({
+      values: [1, 2, 3],
+      closeValue: "end",
+    });
+  });
+
+  it("lets consumers fall up to `lag` items behind with lag", function* () {
+    const pulls = { count: 0 };
+    const [fast, slow] = yield* tee({ consumers: 2, lag: 2 })(
+      counted(5, pulls),
+    );
+    const slowSubscription = yield* slow;
+
+    expect(yield* collect(yield* fast)).toEqual({
+      values: [1, 2, 3, 4, 5],
+      closeValue: "end",
+    });
+    expect(yield* collect(slowSubscription)).toEqual({
+      values: [4, 5],
+      closeValue: "end",
+    });
+    expect(slow.dropped).toEqual(3);
+    expect(fast.dropped).toEqual(0);
+  });
+
+  it("passes the error of the source to every consumer", function* () {
+    const failing: Stream<number, void> = {
+      *[Symbol.iterator]() {
+        return {
+          *next() {
+            throw new Error("connection lost");
+          },
+        };
+      },
+    };
+    const consumers = yield* tee({ consumers: 2 })(failing);
+
+    for (const consumer of consumers) {
+      const subscription = yield* consumer;
+      let error: unknown;
+      try {
+        yield* subscription.next();
+      } catch (e) {
+        error = e;
+      }
+      expect((error as Error).message).toEqual("connection lost");
+    }
+  });
+
+  it("rejects a number of consumers that is not a positive integer", function* () {
+    expect(() => tee({ consumers: 0 })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,193 @@
+import {
+  Err,
+  Ok,
+  type Operation,
+  type Result,
+  type Stream,
+  ensure,
+  withResolvers,
+} from "effection";
+
+import type { BufferedStream } from "./buffer.ts";
+
+/**
+ * Options for {@link tee}.
+ */
+export interface TeeOptions {
+  /**
+   * How many consumers to split the stream into.
+   */
+  readonly consumers: number;
+  /**
+   * Let each consumer fall up to this many items behind the fastest one,
+   * instead of pacing the source by the slowest consumer. A consumer that
+   * falls further behind misses the oldest items, which are counted in its
+   * `dropped`. Defaults to pacing by the slowest consumer.
+   */
+  readonly lag?: number;
+}
+
+/**
+ * Splits a stream into several consumer streams that each receive every
+ * item of the source, in order.
+ *
+ * By default, the source is paced by the slowest consumer: a new item is
+ * only read from the source once every consumer has taken the previous one.
+ * With `lag`, each consumer reads at its own pace instead, and a consumer
+ * that falls more than `lag` items behind the fastest one misses the oldest
+ * items.
+ *
+ * The source is subscribed to right away in the current scope, so no item is
+ * missed by a consumer that subscribes later. Each consumer stream is meant
+ * to be subscribed to once; when a consumer's subscription ends, the others
+ * stop waiting for it. The close value and errors of the source are passed
+ * on to every consumer.
+ *
+ * @param options.consumers - How many consumers to split the stream into
+ * @param options.lag - How far behind the fastest a consumer may fall
+ * @returns A function that takes a stream and returns the consumer streams
+ *
+ * @example
+ * ```typescript
+ * import { forEach, tee } from "@effectionx/stream-helpers";
+ * import { spawn } from "effection";
+ *
+ * const [log, readiness] = yield* tee({ consumers: 2 })(process.stdout);
+ *
+ * yield* spawn(() => forEach(writeToFile, log));
+ * yield* forEach(checkReady, readiness);
+ * ```
+ */
+export function tee(
+  options: TeeOptions,
+): <T, TClose>(
+  stream: Stream<T, TClose>,
+) => Operation<BufferedStream<T, TClose>[]> {
+  const { consumers, lag } = options;
+  if (!Number.isInteger(consumers) || consumers < 1) {
+    throw new RangeError(
+      `tee() consumers must be a positive integer, but got ${consumers}`,
+    );
+  }
+  if (lag !== undefined && (!Number.isInteger(lag) || lag < 1)) {
+    throw new RangeError(
+      `tee() lag must be a positive integer, but got ${lag}`,
+    );
+  }
+
+  return function* <T, TClose>(stream: Stream<T, TClose>) {
+    const subscription = yield* stream;
+    // items that some consumer has yet to take; history[0] is item `base`
+    let history: Result<IteratorResult<T, TClose>>[] = [];
+    let base = 0;
+    let pulling = false;
+    const cursors: number[] = new Array(consumers).fill(0);
+    const active: boolean[] = new Array(consumers).fill(true);
+    const dropped: number[] = new Array(consumers).fill(0);
+    let changed = withResolvers<void>();
+
+    function notify() {
+      changed.resolve();
+      changed = withResolvers<void>();
+    }
+
+    function end() {
+      return base + history.length;
+    }
+
+    function trim() {
+      if (lag !== undefined) {
+        return;
+      }
+      const slowest = Math.min(
+        ...cursors.filter((_, index) => active[index]),
+        end(),
+      );
+      if (slowest > base) {
+        history = history.slice(slowest - base);
+        base = slowest;
+      }
+    }
+
+    function* pull(): Operation<void> {
+      pulling = true;
+      let result: Result<IteratorResult<T, TClose>> | undefined;
+      try {
+        result = Ok(yield* subscription.next());
+      } catch (error) {
+        result = Err(error as Error);
+      } finally {
+        pulling = false;
+        if (!result) {
+          // halted while pulling, so let another consumer pull instead
+          notify();
+        }
+      }
+      history.push(result);
+      // the close or error of the source does not take up one of the slots
+      const item = result.ok && !result.value.done;
+      if (lag !== undefined && item && history.length > lag) {
+        base += history.length - lag;
+        history = history.slice(history.length - lag);
+      }
+      notify();
+    }
+
+    function canPull(): boolean {
+      if (pulling) {
+        return false;
+      }
+      const last = history[history.length - 1];
+      if (last && (!last.ok || last.value.done)) {
+        return false;
+      }
+      return (
+        lag !== undefined ||
+        cursors.every((cursor, index) => !active[index] || cursor === end())
+      );
+    }
+
+    return cursors.map(
+      (_, index): BufferedStream<T, TClose> => ({
+        get dropped() {
+          return dropped[index];
+        },
+        *[Symbol.iterator]() {
+          yield* ensure(() => {
+            active[index] = false;
+            trim();
+            notify();
+          });
+
+          return {
+            *next() {
+              while (true) {
+                if (cursors[index] < base) {
+                  dropped[index] += base - cursors[index];
+                  cursors[index] = base;
+                }
+                if (cursors[index] < end()) {
+                  const result = history[cursors[index] - base];
+                  if (!result.ok) {
+                    throw result.error;
+                  }
+                  if (!result.value.done) {
+                    cursors[index]++;
+                    trim();
+                    notify();
+                  }
+                  return result.value;
+                }
+                if (canPull()) {
+                  yield* pull();
+                } else {
+                  yield* changed.operation;
+                }
+              }
+            },
+          };
+        },
+      }),
+    );
+  };
+}
@@ -0,0 +1,77 @@
+import {
+  type Channel,
+  type Operation,
+  type Stream,
+  type Subscription,
+  ensure,
+  sleep,
+} from "effection";
+
+/**
+ * Read every item of a subscription, and the value it closes with.
+ */
+export function* collect<T, TClose>(
+  subscription: Subscription<T, TClose>,
+): Operation<{ values: T[]; closeValue: TClose }> {
+  const values: T[] = [];
+  let next = yield* subscription.next();
+  while (!next.done) {
+    values.push(next.value);
+    next = yield* subscription.next();
+  }
+  return { values, closeValue: next.value };
+}
+
+/**
+ * Send each item after waiting its delay, then close the channel.
+ */
+export function* produce<T, TClose>(
+  channel: Channel<T, TClose>,
+  items: [delay: number, value: T][],
+  close: TClose,
+): Operation<void> {
+  for (const [delay, value] of items) {
+    yield* sleep(delay);
+    yield* channel.send(value);
+  }
+  yield* channel.close(close);
+}
+
+/**
+ * Wrap `stream` so that it logs when it is subscribed to and when the
+ * subscription is torn down.
+ */
+export function logged<T, TClose>(
+  name: string,
+  log: string[],
+  stream: Stream<T, TClose>,
+): Stream<T, TClose> {
+  return {
+    *[Symbol.iterator]() {
+      log.push(`${name} subscribed`);
+      yield* ensure(() => {
+        log.push(`${name} torn down`);
+      });
+      return yield* stream;
+    },
+  };
+}
+
+/**
+ * A stream that yields `items`, then throws `error`.
+ */
+export function failing<T>(items: T[], error: Error): Stream<T, never> {
+  return {
+    *[Symbol.iterator]() {
+      let index = 0;
+      return {
+        *next() {
+          if (index < items.length) {
+            return { done: false, value: items[index++] };
+          }
+          throw error;
+        },
+      };
+    },
+  };
+}
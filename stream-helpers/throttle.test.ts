@@ -0,0 +1,113 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { createChannel, race, sleep, spawn } from "effection";
+
+import { throttle } from "./throttle.ts";
+import { collect, produce } from "./test-helpers/streams.ts";
+
+describe("throttle", () => {
+  it("yields the first and the last item of each period", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* throttle(30)(source);
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [0, 2],
+          [0, 3],
+          [100, 4],
+        ],
+        "end",
+      ),
+    );
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1, 3, 4],
+      closeValue: "end",
+    });
+  });
+
+  it("waits until the end of the period without leading", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* throttle(30, { leading: false })(source);
+    const start = performance.now();
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [0, 2],
+          [100, 3],
+        ],
+        "end",
+      ),
+    );
+
+    const first = yield* subscription.next();
+    expect(first).toEqual({ done: false, value: 2 });
+    expect(performance.now() - start).toBeGreaterThanOrEqual(25);
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [3],
+      closeValue: "end",
+    });
+  });
+
+  it("drops the items of the period without trailing", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* throttle(30, { trailing: false })(source);
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [0, 2],
+          [0, 3],
+          [100, 4],
+          [0, 5],
+        ],
+        "end",
+      ),
+    );
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1, 4],
+      closeValue: "end",
+    });
+  });
+
+  it("rejects turning off both leading and trailing", function* () {
+    expect(() => throttle(10, { leading: false, trailing: false })).toThrow(
+      RangeError,
+    );
+  });
+
+  it("keeps reading after a read is given up on", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* throttle(20, { leading: false })(source);
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [0, 2],
+          [50, 3],
+        ],
+        "end",
+      ),
+    );
+
+    const first = yield* race([subscription.next(), sleep(5)]);
+    expect(first).toBeUndefined();
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [2, 3],
+      closeValue: "end",
+    });
+  });
+});
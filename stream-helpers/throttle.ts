@@ -0,0 +1,103 @@
+import { type Stream, useScope } from "effection";
+
+import { createPull } from "./pull.ts";
+
+/**
+ * Options for {@link throttle}.
+ */
+export interface ThrottleOptions {
+  /**
+   * Yield the first item of a quiet period right away. Defaults to `true`.
+   */
+  readonly leading?: boolean;
+  /**
+   * Yield the last item that arrived while throttled once the period is
+   * over. Defaults to `true`.
+   */
+  readonly trailing?: boolean;
+}
+
+/**
+ * Yields at most one item every `ms` milliseconds. With `leading`, the
+ * first item of a quiet period is yielded right away. With `trailing`, the
+ * last item that arrived during the period is yielded when it ends, which
+ * starts a new period. Other items are dropped.
+ *
+ * When the source closes, a trailing item that was waiting is yielded right
+ * away, and then the stream closes with the source's close value.
+ *
+ * @example
+ * ```typescript
+ * import { throttle } from "@effectionx/stream-helpers";
+ *
+ * // redraw at most 10 times a second
+ * const frames = throttle(100)(updates);
+ * ```
+ *
+ * @param ms - The length of the period
+ * @param options.leading - Whether to yield the first item right away
+ * @param options.trailing - Whether to yield the last item at the end
+ * @returns A stream transformer that limits how often items are yielded
+ */
+export function throttle(
+  ms: number,
+  options: ThrottleOptions = {},
+): <T, TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  const { leading = true, trailing = true } = options;
+  if (!leading && !trailing) {
+    throw new RangeError("throttle() needs leading or trailing to be true");
+  }
+
+  return <T, TClose>(stream: Stream<T, TClose>): Stream<T, TClose> => ({
+    *[Symbol.iterator]() {
+      const pull = createPull(yield* useScope(), yield* stream);
+      // the end of the current period, if one is going on
+      let until = 0;
+      let waiting: { value: T } | undefined;
+      let closed: IteratorReturnResult<TClose> | undefined;
+
+      return {
+        *next() {
+          if (closed) {
+            return closed;
+          }
+          while (true) {
+            const now = performance.now();
+            if (now >= until) {
+              if (waiting) {
+                const { value } = waiting;
+                waiting = undefined;
+                until = now + ms;
+                return { done: false, value };
+              }
+              const next = (yield* pull.next()) as IteratorResult<T, TClose>;
+              if (next.done) {
+                return next;
+              }
+              until = performance.now() + ms;
+              if (leading) {
+                return next;
+              }
+              waiting = { value: next.value };
+              continue;
+            }
+            const next = yield* pull.next(until - now);
+            if (!next) {
+              continue;
+            }
+            if (next.done) {
+              if (waiting) {
+                closed = next;
+                return { done: false, value: waiting.value };
+              }
+              return next;
+            }
+            if (trailing) {
+              waiting = { value: next.value };
+            }
+          }
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,47 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { createChannel, spawn } from "effection";
+
+import { StreamTimeoutError, timeout } from "./timeout.ts";
+import { collect, produce } from "./test-helpers/streams.ts";
+
+describe("timeout", () => {
+  it("passes items through when they arrive in time", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* timeout(50)(source);
+
+    yield* spawn(() =>
+      produce(
+        source,
+        [
+          [0, 1],
+          [10, 2],
+        ],
+        "end",
+      ),
+    );
+
+    expect(yield* collect(subscription)).toEqual({
+      values: [1, 2],
+      closeValue: "end",
+    });
+  });
+
+  it("fails when an item takes too long", function* () {
+    const source = createChannel<number, string>();
+    const subscription = yield* timeout(20)(source);
+
+    yield* spawn(() => source.send(1));
+
+    expect(yield* subscription.next()).toEqual({ done: false, value: 1 });
+
+    let error: unknown;
+    try {
+      yield* subscription.next();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(StreamTimeoutError);
+    expect((error as StreamTimeoutError).ms).toEqual(20);
+  });
+});
@@ -0,0 +1,54 @@
+import { timebox } from "@effectionx/timebox";
+import type { Stream } from "effection";
+
+/**
+ * Error thrown by a stream created with {@link timeout} when the source
+ * takes too long to produce an item.
+ */
+export class StreamTimeoutError extends Error {
+  readonly name = "StreamTimeoutError";
+  /** How long the stream waited for the item, in milliseconds. */
+  readonly ms: number;
+
+  constructor(ms: number) {
+    super(`stream did not produce an item within ${ms}ms`);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.ms = ms;
+  }
+}
+
+/**
+ * Fails with a {@link StreamTimeoutError} if the source stream takes more
+ * than `ms` milliseconds to produce an item or to close, counted from when
+ * the item is asked for. The pending read of the source is halted.
+ *
+ * @example
+ * ```typescript
+ * import { timeout } from "@effectionx/stream-helpers";
+ *
+ * // fail when the server goes quiet for 30 seconds
+ * const messages = timeout(30_000)(socket);
+ * ```
+ *
+ * @param ms - How long to wait for each item
+ * @returns A stream transformer that fails when an item takes too long
+ */
+export function timeout(
+  ms: number,
+): <T, TClose>(stream: Stream<T, TClose>) => Stream<T, TClose> {
+  return <T, TClose>(stream: Stream<T, TClose>): Stream<T, TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+
+      return {
+        *next() {
+          const result = yield* timebox(ms, () => subscription.next());
+          if (result.timeout) {
+            throw new StreamTimeoutError(ms);
+          }
+          return result.value;
+        },
+      };
+    },
+  });
+}
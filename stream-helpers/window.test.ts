@@ -0,0 +1,95 @@
+import { describe, it } from "@effectionx/vitest";
+import { expect } from "expect";
+import { type Stream, sleep } from "effection";
+
+import { streamOf } from "./stream-of.ts";
+import { window, windowTime } from "./window.ts";
+import { collect } from "./test-helpers/streams.ts";
+
+describe("window", () => {
+  it("yields a window for every item by default", function* () {
+    const { values: windows } = yield* collect(
+      yield* window({ size: 3 })(streamOf([1, 2, 3, 4, 5])),
+    );
+
+    expect(windows).toEqual([
+      [1, 2, 3],
+      [2, 3, 4],
+      [3, 4, 5],
+    ]);
+  });
+
+  it("starts a new window every `slide` items", function* () {
+    const { values: windows } = yield* collect(
+      yield* window({ size: 3, slide: 2 })(streamOf([1, 2, 3, 4, 5, 6])),
+    );
+
+    expect(windows).toEqual([
+      [1, 2, 3],
+      [3, 4, 5],
+    ]);
+  });
+
+  it("skips items between windows when `slide` is larger than `size`", function* () {
+    const { values: windows } = yield* collect(
+      yield* window({ size: 2, slide: 3 })(streamOf([1, 2, 3, 4, 5, 6, 7])),
+    );
+
+    expect(windows).toEqual([
+      [1, 2],
+      [4, 5],
+    ]);
+  });
+
+  it("drops an unfinished window and closes with the source", function* () {
+    const stream = streamOf(
+      (function* () {
+        yield 1;
+        yield 2;
+        yield 3;
+        return "end";
+      })(),
+    );
+
+    expect(
+      yield* collect(yield* window({ size: 2, slide: 2 })(stream)),
+    ).toEqual({
+      values: [[1, 2]],
+      closeValue: "end",
+    });
+  });
+
+  it("rejects a size that is not a positive integer", function* () {
+    expect(() => window({ size: 0 })).toThrow(RangeError);
+  });
+});
+
+describe("windowTime", () => {
+  it("yields the items of the last `ms` for every item", function* () {
+    const stream: Stream<number, string> = {
+      *[Symbol.iterator]() {
+        const items: [delay: number, value: number][] = [
+          [0, 1],
+          [0, 2],
+          [50, 3],
+          [0, 4],
+        ];
+        return {
+          *next() {
+            const item = items.shift();
+            if (!item) {
+              return { done: true, value: "end" };
+            }
+            yield* sleep(item[0]);
+            return { done: false, value: item[1] };
+          },
+        };
+      },
+    };
+
+    expect(yield* collect(yield* windowTime(30)(stream))).toEqual({
+      values: [[1], [1, 2], [3], [3, 4]],
+      closeValue: "end",
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import type { Stream } from "effection";
+
+/**
+ * Options for {@link window}.
+ */
+export interface WindowOptions {
+  /**
+   * The number of items in each window.
+   */
+  readonly size: number;
+  /**
+   * The number of items between the start of one window and the start of
+   * the next. Defaults to 1, so that every item starts a new window.
+   */
+  readonly slide?: number;
+}
+
+/**
+ * Yields sliding windows of `size` items from the source stream, starting a
+ * new window every `slide` items. Only full windows are yielded: when the
+ * source closes, the items of a window that is not full yet are dropped, and
+ * the stream closes with the source's close value.
+ *
+ * @example
+ * ```ts
+ * import { streamOf, window } from "@effectionx/stream-helpers";
+ *
+ * window({ size: 3 })(streamOf([1, 2, 3, 4])) //=> yields [1, 2, 3], [2, 3, 4]
+ * window({ size: 2, slide: 2 })(streamOf([1, 2, 3, 4])) //=> yields [1, 2], [3, 4]
+ * ```
+ *
+ * @param options.size - The number of items in each window
+ * @param options.slide - The number of items between the starts of windows
+ * @returns A stream transformer that yields windows of items
+ */
+export function window(
+  options: WindowOptions,
+): <T, TClose>(stream: Stream<T, TClose>) => Stream<Readonly<T[]>, TClose> {
+  const { size, slide = 1 } = options;
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(
+      `window() size must be a positive integer, but got ${size}`,
+    );
+  }
+  if (!Number.isInteger(slide) || slide < 1) {
+    throw new RangeError(
+      `window() slide must be a positive integer, but got ${slide}`,
+    );
+  }
+
+  return <T, TClose>(
+    stream: Stream<T, TClose>,
+  ): Stream<Readonly<T[]>, TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+      let items: T[] = [];
+      // items to drop before the next window starts, when slide > size
+      let skip = 0;
+
+      return {
+        *next() {
+          while (true) {
+            const next = yield* subscription.next();
+            if (next.done) {
+              return next;
+            }
+            if (skip > 0) {
+              skip--;
+              continue;
+            }
+            items.push(next.value);
+            if (items.length === size) {
+              const full = items;
+              items = items.slice(Math.min(slide, size));
+              skip = Math.max(slide - size, 0);
+              return { done: false, value: full };
+            }
+          }
+        },
+      };
+    },
+  });
+}
+
+/**
+ * Yields, for each item of the source stream, the items that arrived within
+ * the last `ms` milliseconds, including that item. Useful to compute rolling
+ * metrics like the rate of events over the last second.
+ *
+ * The stream closes with the source's close value.
+ *
+ * @example
+ * ```ts
+ * import { map, windowTime } from "@effectionx/stream-helpers";
+ * import { pipe } from "remeda";
+ *
+ * const perSecond = pipe(
+ *   requests,
+ *   windowTime(1000),
+ *   map(function* (recent) {
+ *     return recent.length;
+ *   }),
+ * );
+ * ```
+ *
+ * @param ms - The length of the window in milliseconds
+ * @returns A stream transformer that yields the items of the last `ms`
+ */
+export function windowTime(
+  ms: number,
+): <T, TClose>(stream: Stream<T, TClose>) => Stream<Readonly<T[]>, TClose> {
+  return <T, TClose>(
+    stream: Stream<T, TClose>,
+  ): Stream<Readonly<T[]>, TClose> => ({
+    *[Symbol.iterator]() {
+      const subscription = yield* stream;
+      let recent: { time: number; value: T }[] = [];
+
+      return {
+        *next() {
+          const next = yield* subscription.next();
+          if (next.done) {
+            return next;
+          }
+          const now = performance.now();
+          recent = recent.filter((item) => now - item.time < ms);
+          recent.push({ time: now, value: next.value });
+          return { done: false, value: recent.map((item) => item.value) };
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import type { Stream } from "effection";
+
+import { type StreamClose, type StreamItem, useSources } from "./sources.ts";
+
+/**
+ * Combines several streams into one that yields tuples made of the next
+ * item of each of them. The sources are read at the same time, and each one
+ * is read at most one item ahead of the consumer.
+ *
+ * The zipped stream closes as soon as any source closes with no item left
+ * to pair, with the close value of that source, since no more tuples can be
+ * made. With no sources, it closes right away. If any source throws, the
+ * zipped stream throws that error. When the consumer stops or the zipped
+ * stream closes, every source subscription is torn down with the consumer's
+ * scope.
+ *
+ * @param streams - The streams to zip
+ * @returns A stream of tuples with one item from each source
+ *
+ * @example
+ * ```typescript
+ * import { zip } from "@effectionx/stream-helpers";
+ *
+ * // [request, response] pairs
+ * const exchanges = zip(requests, responses);
+ * ```
+ */
+export function zip<TStreams extends readonly Stream<unknown, unknown>[]>(
+  ...streams: TStreams
+): Stream<
+  { -readonly [K in keyof TStreams]: StreamItem<TStreams[K]> },
+  StreamClose<TStreams[number]>
+> {
+  type T = { -readonly [K in keyof TStreams]: StreamItem<TStreams[K]> };
+  type TClose = StreamClose<TStreams[number]>;
+
+  return {
+    *[Symbol.iterator]() {
+      const sources = yield* useSources(streams);
+
+      return {
+        *next() {
+          if (streams.length === 0) {
+            return { done: true, value: undefined as TClose };
+          }
+          while (true) {
+            if (sources.slots.every(Boolean)) {
+              return {
+                done: false,
+                value: sources.slots.map((_, index) =>
+                  sources.take(index),
+                ) as T,
+              };
+            }
+            if (sources.failure) {
+              throw sources.failure.error;
+            }
+            const ended = sources.closed.findIndex(
+              (closed, index) => closed && !sources.slots[index],
+            );
+            if (ended >= 0) {
+              return { done: true, value: sources.closes[ended] as TClose };
+            }
+            yield* sources.changed();
+          }
+        },
+      };
+    },
+  };
+}
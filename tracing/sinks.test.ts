@@ -0,0 +1,97 @@
+import { mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createApi } from "@effectionx/context-api";
+import { JSONLStore, type Store } from "@effectionx/jsonl-store";
+import { beforeEach, describe, it } from "@effectionx/vitest";
+import { type Operation, each, scoped, until } from "effection";
+import { expect } from "expect";
+
+import { useJSONLSink, useOTLPFileSink } from "./sinks.ts";
+import { type Span, trace } from "./tracing.ts";
+
+function createMath() {
+  return createApi("sinks.math", {
+    *add(left: number, right: number): Operation<number> {
+      return left + right;
+    },
+    *divide(left: number, right: number): Operation<number> {
+      if (right === 0) {
+        throw new RangeError("division by zero");
+      }
+      return left / right;
+    },
+  });
+}
+
+describe("sinks", () => {
+  let dir: string;
+
+  beforeEach(function* () {
+    dir = yield* until(mkdtemp(join(tmpdir(), "tracing-test-")));
+  });
+
+  it("writes spans to a JSONL store", function* () {
+    let store: Store = JSONLStore.from({ location: dir });
+    let math = createMath();
+
+    yield* scoped(function* () {
+      let sink = yield* useJSONLSink({ key: "trace", store });
+      yield* trace(math, { name: "math", sink });
+      yield* math.operations.add(1, 2);
+      yield* math.operations.add(3, 4);
+    });
+
+    let spans: Span[] = [];
+    for (let span of yield* each(store.read<Span>("trace"))) {
+      spans.push(span);
+      yield* each.next();
+    }
+
+    expect(spans).toMatchObject([
+      { name: "math.add", status: "ok", attributes: { args: "[1,2]" } },
+      { name: "math.add", status: "ok", attributes: { args: "[3,4]" } },
+    ]);
+  });
+
+  it("writes an OTLP/JSON file when the scope exits", function* () {
+    let path = join(dir, "trace.json");
+    let math = createMath();
+
+    yield* scoped(function* () {
+      let sink = yield* useOTLPFileSink({ path, serviceName: "calculator" });
+      yield* trace(math, { name: "math", sink });
+      yield* math.operations.add(1, 2);
+      try {
+        yield* math.operations.divide(1, 0);
+      } catch {
+        // exported as an error span
+      }
+    });
+
+    let document = JSON.parse(yield* until(readFile(path, "utf8")));
+    let [resourceSpans] = document.resourceSpans;
+    expect(resourceSpans.resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "calculator" } },
+    ]);
+
+    let [add, divide] = resourceSpans.scopeSpans[0].spans;
+    expect(add).toMatchObject({
+      name: "math.add",
+      status: { code: 1 },
+      attributes: [
+        { key: "field", value: { stringValue: "add" } },
+        { key: "args", value: { stringValue: "[1,2]" } },
+      ],
+    });
+    expect(add.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(add.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(BigInt(add.endTimeUnixNano)).toBeGreaterThanOrEqual(
+      BigInt(add.startTimeUnixNano),
+    );
+    expect(divide).toMatchObject({
+      name: "math.divide",
+      status: { code: 2, message: "RangeError: division by zero" },
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { writeFile } from "node:fs/promises";
+import { type Store, createLogWriter, useStore } from "@effectionx/jsonl-store";
+import { type Operation, call, ensure, resource } from "effection";
+
+import type { Span, SpanAttributes, SpanSink } from "./tracing.ts";
+
+/**
+ * A sink that keeps every span in memory.
+ */
+export interface MemorySink extends SpanSink {
+  /** The spans exported so far, in the order their calls settled. */
+  readonly spans: Span[];
+}
+
+/**
+ * Create a sink that collects spans into an array. Useful in tests to assert
+ * which calls were made and how they nested.
+ *
+ * @example
+ * ```ts
+ * import { createMemorySink, trace } from "@effectionx/tracing";
+ * import { weather } from "./weather.ts";
+ *
+ * let sink = createMemorySink();
+ * yield* trace(weather, { sink });
+ * yield* weather.operations.forecast("Austin");
+ *
+ * expect(sink.spans.map((span) => span.name)).toEqual(["forecast"]);
+ * ```
+ */
+export function createMemorySink(): MemorySink {
+  let spans: Span[] = [];
+  return {
+    spans,
+    *export(span) {
+      spans.push(span);
+    },
+  };
+}
+
+export interface JSONLSinkOptions {
+  /**
+   * The key in the store that spans are written to.
+   */
+  key: string;
+  /**
+   * The store to write to. Defaults to the store in context, as returned by
+   * `useStore()`.
+   */
+  store?: Store;
+}
+
+/**
+ * Write each span as a line of JSON to a JSONL store as soon as it is
+ * exported. Any spans previously written under the same key are replaced.
+ *
+ * @example
+ * ```ts
+ * import { trace, useJSONLSink } from "@effectionx/tracing";
+ * import { weather } from "./weather.ts";
+ *
+ * let sink = yield* useJSONLSink({ key: "traces/forecast" });
+ * yield* trace(weather, { sink });
+ * ```
+ */
+export function* useJSONLSink(options: JSONLSinkOptions): Operation<SpanSink> {
+  let store = options.store ?? (yield* useStore());
+  let spans = createLogWriter(store, options.key);
+  return {
+    export: (span) => spans.write(span),
+  };
+}
+
+export interface OTLPFileSinkOptions {
+  /**
+   * The file to write the spans to.
+   */
+  path: string;
+  /**
+   * The `service.name` resource attribute. Defaults to `"effection"`.
+   */
+  serviceName?: string;
+}
+
+/**
+ * Collect spans and write them to a file in the OTLP/JSON format when the
+ * current scope exits. The file can be loaded by any tool that accepts
+ * OpenTelemetry traces as JSON, such as the OpenTelemetry Collector's
+ * `otlpjsonfile` receiver.
+ *
+ * @example
+ * ```ts
+ * import { trace, useOTLPFileSink } from "@effectionx/tracing";
+ * import { weather } from "./weather.ts";
+ *
+ * let sink = yield* useOTLPFileSink({ path: "trace.json" });
+ * yield* trace(weather, { name: "weather", sink });
+ * ```
+ */
+export function useOTLPFileSink(
+  options: OTLPFileSinkOptions,
+): Operation<SpanSink> {
+  return resource(function* (provide) {
+    let spans: Span[] = [];
+
+    yield* ensure(function* () {
+      let document = toOTLP(spans, options.serviceName ?? "effection");
+      yield* call(() => writeFile(options.path, JSON.stringify(document)));
+    });
+
+    yield* provide({
+      *export(span) {
+        spans.push(span);
+      },
+    });
+  });
+}
+
+const STATUS_CODE = { halted: 0, ok: 1, error: 2 } as const;
+
+function toOTLP(spans: Span[], serviceName: string) {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toAttributes({ "service.name": serviceName }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: "@effectionx/tracing" },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              parentSpanId: span.parentSpanId,
+              name: span.name,
+              kind: 1,
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.startTime + span.duration),
+              attributes: toAttributes(span.attributes),
+              status: {
+                code: STATUS_CODE[span.status],
+                message:
+                  span.status === "halted"
+                    ? "halted"
+                    : span.error
+                      ? `${span.error.name}: ${span.error.message}`
+                      : undefined,
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toUnixNano(milliseconds: number): string {
+  return (BigInt(Math.round(milliseconds * 1000)) * 1000n).toString();
+}
+
+function toAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === "string"
+        ? { stringValue: value }
+        : typeof value === "boolean"
+          ? { boolValue: value }
+          : Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value },
+  }));
+}
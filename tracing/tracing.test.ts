@@ -0,0 +1,250 @@
+import { createApi } from "@effectionx/context-api";
+import { describe, it } from "@effectionx/vitest";
+import {
+  type Operation,
+  resource,
+  scoped,
+  spawn,
+  suspend,
+  withResolvers,
+} from "effection";
+import { expect } from "expect";
+
+import { createMemorySink } from "./sinks.ts";
+import { trace } from "./tracing.ts";
+
+function createMath() {
+  return createApi("tracing.math", {
+    *add(left: number, right: number): Operation<number> {
+      return left + right;
+    },
+    *divide(left: number, right: number): Operation<number> {
+      if (right === 0) {
+        throw new RangeError("division by zero");
+      }
+      return left / right;
+    },
+    negate: (value: number) => -value,
+    pi: 3.14,
+  });
+}
+
+describe("trace", () => {
+  it("exports a span for every call", function* () {
+    let math = createMath();
+    let sink = createMemorySink();
+
+    yield* trace(math, { name: "math", sink });
+    expect(yield* math.operations.add(1, 2)).toEqual(3);
+    expect(yield* math.operations.negate(5)).toEqual(-5);
+    expect(yield* math.operations.pi).toEqual(3.14);
+
+    expect(sink.spans).toMatchObject([
+      { name: "math.add", status: "ok", attributes: { args: "[1,2]" } },
+      { name: "math.negate", status: "ok", attributes: { args: "[5]" } },
+      { name: "math.pi", status: "ok", attributes: { field: "pi" } },
+    ]);
+    for (let span of sink.spans) {
+      expect(span.parentSpanId).toBeUndefined();
+      expect(span.duration).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  it("records errors and rethrows them", function* () {
+    let math = createMath();
+    let sink = createMemorySink();
+
+    yield* trace(math, { sink });
+
+    let error: unknown;
+    try {
+      yield* math.operations.divide(1, 0);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(RangeError);
+    expect(sink.spans).toMatchObject([
+      {
+        name: "divide",
+        status: "error",
+        error: { name: "RangeError", message: "division by zero" },
+      },
+    ]);
+  });
+
+  it("nests calls made from other traced calls", function* () {
+    let math = createMath();
+    let stats = createApi("tracing.stats", {
+      *sum(values: number[]): Operation<number> {
+        let total = 0;
+        for (let value of values) {
+          total = yield* math.operations.add(total, value);
+        }
+        return total;
+      },
+    });
+    let sink = createMemorySink();
+
+    yield* trace(math, { name: "math", sink });
+    yield* trace(stats, { name: "stats", sink });
+
+    expect(yield* stats.operations.sum([1, 2])).toEqual(3);
+    yield* math.operations.add(0, 0);
+
+    let [first, second, sum, root] = sink.spans;
+    expect(sink.spans.map((span) => span.name)).toEqual([
+      "math.add",
+      "math.add",
+      "stats.sum",
+      "math.add",
+    ]);
+    expect(first.parentSpanId).toEqual(sum.spanId);
+    expect(second.parentSpanId).toEqual(sum.spanId);
+    expect(first.traceId).toEqual(sum.traceId);
+    expect(root.parentSpanId).toBeUndefined();
+    expect(root.traceId).not.toEqual(sum.traceId);
+  });
+
+  it("nests calls made from tasks spawned by a traced call", function* () {
+    let math = createMath();
+    let jobs = createApi("tracing.jobs", {
+      *fork(): Operation<number> {
+        let task = yield* spawn(() => math.operations.add(1, 1));
+        return yield* task;
+      },
+    });
+    let sink = createMemorySink();
+
+    yield* trace(math, { sink });
+    yield* trace(jobs, { sink });
+
+    yield* jobs.operations.fork();
+
+    let [add, fork] = sink.spans;
+    expect(add.name).toEqual("add");
+    expect(add.parentSpanId).toEqual(fork.spanId);
+  });
+
+  it("nests calls from a spawned task under the call that spawned it", function* () {
+    let math = createMath();
+    let added = withResolvers<void>();
+    let waiter = createApi("tracing.waiter", {
+      *wait(): Operation<void> {
+        yield* added.operation;
+      },
+    });
+    let jobs = createApi("tracing.jobs", {
+      *fork(): Operation<number> {
+        let task = yield* spawn(function* () {
+          let sum = yield* math.operations.add(1, 1);
+          added.resolve();
+          return sum;
+        });
+        yield* waiter.operations.wait();
+        return yield* task;
+      },
+    });
+    let sink = createMemorySink();
+
+    yield* trace(math, { sink });
+    yield* trace(waiter, { sink });
+    yield* trace(jobs, { sink });
+
+    yield* jobs.operations.fork();
+
+    let [add, wait, fork] = sink.spans;
+    expect(sink.spans.map((span) => span.name)).toEqual([
+      "add",
+      "wait",
+      "fork",
+    ]);
+    expect(add.parentSpanId).toEqual(fork.spanId);
+    expect(wait.parentSpanId).toEqual(fork.spanId);
+  });
+
+  it("exports halted calls", function* () {
+    let started = withResolvers<void>();
+    let api = createApi("tracing.wait", {
+      *wait(): Operation<void> {
+        started.resolve();
+        yield* suspend();
+      },
+    });
+    let sink = createMemorySink();
+
+    yield* trace(api, { sink });
+    let task = yield* spawn(() => api.operations.wait());
+    yield* started.operation;
+    yield* task.halt();
+
+    expect(sink.spans).toMatchObject([{ name: "wait", status: "halted" }]);
+  });
+
+  it("keeps resources created by a call alive after it returns", function* () {
+    let log: string[] = [];
+    let api = createApi("tracing.connections", {
+      open(): Operation<{ alive: boolean }> {
+        return resource(function* (provide) {
+          let connection = { alive: true };
+          try {
+            yield* provide(connection);
+          } finally {
+            connection.alive = false;
+            log.push("closed");
+          }
+        });
+      },
+    });
+    let sink = createMemorySink();
+
+    yield* scoped(function* () {
+      yield* trace(api, { sink });
+      let connection = yield* api.operations.open();
+
+      expect(connection.alive).toBe(true);
+      expect(log).toEqual([]);
+      expect(sink.spans).toMatchObject([{ name: "open", status: "ok" }]);
+    });
+
+    expect(log).toEqual(["closed"]);
+  });
+
+  it("only traces the requested fields", function* () {
+    let math = createMath();
+    let sink = createMemorySink();
+
+    yield* trace(math, { sink, fields: ["negate"] });
+    yield* math.operations.add(1, 2);
+    yield* math.operations.negate(2);
+
+    expect(sink.spans.map((span) => span.name)).toEqual(["negate"]);
+  });
+
+  it("describes arguments with custom attributes", function* () {
+    let math = createMath();
+    let sink = createMemorySink();
+
+    yield* trace(math, {
+      sink,
+      attributes: (field, args) => ({ operands: args.length, field }),
+    });
+    yield* math.operations.add(1, 2);
+
+    expect(sink.spans[0].attributes).toEqual({ field: "add", operands: 2 });
+  });
+
+  it("stops tracing when removed", function* () {
+    let math = createMath();
+    let sink = createMemorySink();
+
+    yield* scoped(function* () {
+      let tracer = yield* trace(math, { sink });
+      yield* math.operations.add(1, 2);
+      tracer.remove();
+      yield* math.operations.add(3, 4);
+    });
+
+    expect(sink.spans).toHaveLength(1);
+  });
+});
@@ -0,0 +1,170 @@
+import { randomBytes } from "node:crypto";
+import {
+  type Api,
+  type Around,
+  type ErrorSummary,
+  type Middleware,
+  type MiddlewareHandle,
+  invoke,
+  summarizeError,
+} from "@effectionx/context-api";
+import { type Operation, createContext, resource } from "effection";
+
+/**
+ * A single traced call, as it is handed to a {@link SpanSink} once the call
+ * has settled.
+ */
+export interface Span {
+  /** Identifies the tree of spans this span belongs to. */
+  traceId: string;
+  /** Identifies this span. */
+  spanId: string;
+  /** The span of the call that this call was made from, if any. */
+  parentSpanId?: string;
+  /** The name of the span, such as `"fs.readTextFile"`. */
+  name: string;
+  /** When the call started, in milliseconds since the epoch. */
+  startTime: number;
+  /** How long the call took to settle, in milliseconds. */
+  duration: number;
+  /**
+   * How the call settled: it returned, it threw, or it was halted before it
+   * could do either.
+   */
+  status: "ok" | "error" | "halted";
+  /** Details about the call, such as a summary of its arguments. */
+  attributes: SpanAttributes;
+  /** The error thrown by the call, when its status is `"error"`. */
+  error?: ErrorSummary;
+}
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Receives every span as soon as its call settles.
+ */
+export interface SpanSink {
+  export(span: Span): Operation<void>;
+}
+
+export interface TraceOptions<A> {
+  /**
+   * Where to send finished spans.
+   */
+  sink: SpanSink;
+  /**
+   * Prefix for span names. With a name of `"fs"`, a call to `readTextFile`
+   * produces a span named `"fs.readTextFile"`. Defaults to no prefix.
+   */
+  name?: string;
+  /**
+   * The fields of the API to trace. Defaults to every field.
+   */
+  fields?: (keyof A & string)[];
+  /**
+   * Describe the arguments of a call as span attributes. Defaults to an
+   * `args` attribute holding the arguments as JSON, cut to 200 characters.
+   */
+  attributes?(field: string, args: unknown[]): SpanAttributes;
+}
+
+/**
+ * The span of the traced call that is running. It is set in the scope of the
+ * call itself, so the tasks that the call spawns see it too, and their own
+ * traced calls become its children.
+ */
+const CurrentSpan = createContext<Span | undefined>(
+  "@effectionx/tracing:span",
+  undefined,
+);
+
+/**
+ * Wrap every call to `api` made from the current scope in a span, and send
+ * the span to `options.sink` when the call settles.
+ *
+ * Spans nest along the Effection task tree: a traced call made while
+ * another traced call is running, whether directly or from a task it
+ * spawned, becomes a child of that call and shares its trace. Calls that are
+ * halted are exported too, with a status of `"halted"`.
+ *
+ * The tracer is installed as `"max"` middleware, so the duration of a span
+ * covers all the other middleware of the call.
+ *
+ * @returns a handle that stops tracing when removed
+ *
+ * @example
+ * ```ts
+ * import { createMemorySink, trace } from "@effectionx/tracing";
+ * import { weather } from "./weather.ts";
+ *
+ * let sink = createMemorySink();
+ * yield* trace(weather, { name: "weather", sink });
+ *
+ * yield* weather.operations.forecast("Austin");
+ * sink.spans; // [{ name: "weather.forecast", status: "ok", ... }]
+ * ```
+ */
+export function* trace<A extends {}, L extends string>(
+  api: Api<A, L>,
+  options: TraceOptions<A>,
+): Operation<MiddlewareHandle> {
+  let { sink, name, attributes = summarize } = options;
+  let fields = options.fields ?? Object.keys(api.operations);
+
+  let around: Record<string, Middleware<unknown[], unknown>> = {};
+  for (let field of fields) {
+    around[field] = function* (args, next) {
+      let parent = yield* CurrentSpan.get();
+      let span: Span = {
+        traceId: parent?.traceId ?? randomBytes(16).toString("hex"),
+        spanId: randomBytes(8).toString("hex"),
+        parentSpanId: parent?.spanId,
+        name: name ? `${name}.${field}` : field,
+        startTime: Date.now(),
+        duration: 0,
+        status: "halted",
+        attributes: { field, ...attributes(field, args) },
+      };
+      let start = performance.now();
+
+      // The call runs as a resource, so that the span is current in a scope
+      // of its own, where neither the caller nor its other tasks see it, and
+      // so that whatever the call creates, such as another resource, lives
+      // on after it returns, until the caller's scope exits.
+      return yield* resource<unknown>(function* (provide) {
+        yield* CurrentSpan.set(span);
+        let value: unknown;
+        try {
+          value = yield* invoke(next, args);
+          span.status = "ok";
+        } catch (error) {
+          span.status = "error";
+          span.error = summarizeError(error);
+          throw error;
+        } finally {
+          span.duration = performance.now() - start;
+          yield* sink.export(span);
+        }
+        yield* provide(value);
+      });
+    };
+  }
+
+  return yield* api.around(around as Partial<Around<A>>, {
+    at: "max",
+    label: "trace",
+  });
+}
+
+function summarize(_field: string, args: unknown[]): SpanAttributes {
+  if (args.length === 0) {
+    return {};
+  }
+  let json: string;
+  try {
+    json = JSON.stringify(args);
+  } catch {
+    json = `[${args.length} arguments]`;
+  }
+  return { args: json.length > 200 ? `${json.slice(0, 199)}…` : json };
+}
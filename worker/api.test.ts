@@ -0,0 +1,69 @@
+import { createApi } from "@effectionx/context-api";
+import { describe, it } from "@effectionx/vitest";
+import type { Operation } from "effection";
+import { expect } from "expect";
+
+import { serveApi } from "./api.ts";
+import { calculator } from "./test-assets/calculator-api.ts";
+import { useWorker } from "./worker.ts";
+
+describe("api bridge", () => {
+  it("performs calls made by the worker on the host", function* () {
+    const worker = yield* useWorker<never, never, string[], void>(
+      import.meta.resolve("./test-assets/api-worker.ts"),
+      { type: "module" },
+    );
+
+    const result = yield* serveApi(worker, calculator);
+
+    expect(result).toEqual([
+      "add: 3",
+      "pi: 3.14",
+      "divide: RangeError: division by zero",
+    ]);
+  });
+
+  it("applies host middleware to calls made by the worker", function* () {
+    const calls: string[] = [];
+    yield* calculator.around({
+      *add(args, next) {
+        calls.push(`add(${args.join(", ")})`);
+        return (yield* next(...args)) * 10;
+      },
+    });
+
+    const worker = yield* useWorker<never, never, string[], void>(
+      import.meta.resolve("./test-assets/api-worker.ts"),
+      { type: "module" },
+    );
+
+    const result = yield* serveApi(worker, calculator);
+
+    expect(result[0]).toEqual("add: 30");
+    expect(calls).toEqual(["add(1, 2)"]);
+  });
+
+  it("fails calls to apis the host does not serve", function* () {
+    const other = createApi("test:other", {
+      *ping(): Operation<string> {
+        return "pong";
+      },
+    });
+
+    const worker = yield* useWorker<never, never, string[], void>(
+      import.meta.resolve("./test-assets/api-worker.ts"),
+      { type: "module" },
+    );
+
+    let error: Error | undefined;
+    try {
+      yield* serveApi(worker, other);
+    } catch (e) {
+      error = e as Error;
+    }
+
+    expect(error?.message).toMatch(
+      /api "test:calculator" is not served by the host/,
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import type {
+  Api,
+  Around,
+  Middleware,
+  MiddlewareHandle,
+} from "@effectionx/context-api";
+import type { Operation } from "effection";
+
+import {
+  type SerializedError,
+  type SerializedResult,
+  type WorkerSend,
+  serializeError,
+} from "./types.ts";
+import type { WorkerResource } from "./worker.ts";
+
+/**
+ * A call to a field of an {@link Api}, as sent from a worker to the host by
+ * {@link forwardApi}.
+ */
+export interface ApiRequest {
+  /** The name the api was created with. */
+  api: string;
+  /** The field of the api being called. */
+  field: string;
+  /** The arguments of the call. They must survive structured cloning. */
+  args: unknown[];
+}
+
+/**
+ * The outcome of an {@link ApiRequest}, as sent back to the worker.
+ */
+export type ApiResponse = SerializedResult<unknown>;
+
+export interface ForwardApiOptions<A> {
+  /**
+   * The fields of the API to forward to the host. Defaults to every field.
+   */
+  fields?: (keyof A & string)[];
+}
+
+/**
+ * Use in a worker to run calls to `api` on the host instead of in the
+ * worker. Every call made from the current scope is sent to the host with
+ * `send`, where {@link serveApi} performs it, and the call returns whatever
+ * the host returned, or throws whatever the host threw.
+ *
+ * It is installed as `"min"` middleware on the worker side, so middleware
+ * installed in the worker still runs around the call before it crosses the
+ * boundary, and middleware installed on the host runs once it arrives.
+ *
+ * @returns a handle that stops forwarding when removed
+ *
+ * @example
+ * ```ts
+ * import {
+ *   type ApiRequest,
+ *   type ApiResponse,
+ *   forwardApi,
+ *   workerMain,
+ * } from "@effectionx/worker";
+ * import { ConfigApi } from "./config-api.ts";
+ *
+ * await workerMain<never, never, string, void, ApiRequest, ApiResponse>(
+ *   function* ({ send }) {
+ *     yield* forwardApi(ConfigApi, send);
+ *
+ *     // performed by the host
+ *     return yield* ConfigApi.operations.get("theme");
+ *   },
+ * );
+ * ```
+ */
+export function* forwardApi<A extends {}, L extends string>(
+  api: Api<A, L>,
+  send: WorkerSend<ApiRequest, ApiResponse>,
+  options: ForwardApiOptions<A> = {},
+): Operation<MiddlewareHandle> {
+  let fields = options.fields ?? Object.keys(api.operations);
+  let around: Record<string, Middleware<unknown[], unknown>> = {};
+  for (let field of fields) {
+    around[field] = function* (args) {
+      let result = yield* send({ api: api.name, field, args });
+      if (result.ok) {
+        return result.value;
+      }
+      throw errorFromHost(result.error);
+    };
+  }
+
+  return yield* api.around(around as Partial<Around<A>>, {
+    at: "min",
+    label: "worker",
+  });
+}
+
+/**
+ * Use on the host to perform the calls that a worker makes to `apis` with
+ * {@link forwardApi}. Calls run in the scope that serves them, so middleware
+ * installed there applies to them as it would to calls made by the host
+ * itself.
+ *
+ * An error thrown by a call is sent back to the worker and thrown there,
+ * with its name and message intact; it does not crash the host.
+ *
+ * This uses `worker.forEach()`, so it serves every request the worker sends
+ * until the worker exits, and returns the worker's result.
+ *
+ * @example
+ * ```ts
+ * import { serveApi, useWorker } from "@effectionx/worker";
+ * import { ConfigApi } from "./config-api.ts";
+ *
+ * const worker = yield* useWorker("./worker.ts", { type: "module" });
+ *
+ * const result = yield* serveApi(worker, ConfigApi);
+ * ```
+ */
+export function serveApi<TSend, TRecv, TReturn>(
+  worker: WorkerResource<TSend, TRecv, TReturn>,
+  ...apis: Pick<Api<object>, "name" | "operations">[]
+): Operation<TReturn> {
+  let served = new Map(apis.map((api) => [api.name, api]));
+
+  return worker.forEach<ApiRequest, ApiResponse>(function* (request) {
+    try {
+      let api = served.get(request.api);
+      if (!api) {
+        throw new Error(`api "${request.api}" is not served by the host`);
+      }
+      let operation = (api.operations as Record<string, unknown>)[
+        request.field
+      ];
+      if (operation === undefined) {
+        throw new Error(`api "${request.api}" has no field "${request.field}"`);
+      }
+      let value =
+        typeof operation === "function"
+          ? yield* (operation as (...args: unknown[]) => Operation<unknown>)(
+              ...request.args,
+            )
+          : yield* operation as Operation<unknown>;
+      return { ok: true, value };
+    } catch (error) {
+      return { ok: false, error: serializeError(error as Error) };
+    }
+  });
+}
+
+function errorFromHost(serialized: SerializedError): Error {
+  let error = new Error(serialized.message, { cause: serialized });
+  error.name = serialized.name;
+  return error;
+}
@@ -1,3 +1,4 @@
 export * from "./worker.ts";
 export * from "./worker-main.ts";
 export * from "./types.ts";
+export * from "./api.ts";
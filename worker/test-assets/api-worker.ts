@@ -0,0 +1,21 @@
+import { forwardApi } from "../api.ts";
+import type { ApiRequest, ApiResponse } from "../api.ts";
+import { workerMain } from "../worker-main.ts";
+import { calculator } from "./calculator-api.ts";
+
+await workerMain<never, never, string[], void, ApiRequest, ApiResponse>(
+  function* ({ send }) {
+    yield* forwardApi(calculator, send);
+
+    let results: string[] = [];
+    results.push(`add: ${yield* calculator.operations.add(1, 2)}`);
+    results.push(`pi: ${yield* calculator.operations.pi}`);
+    try {
+      yield* calculator.operations.divide(1, 0);
+    } catch (error) {
+      let { name, message } = error as Error;
+      results.push(`divide: ${name}: ${message}`);
+    }
+    return results;
+  },
+);
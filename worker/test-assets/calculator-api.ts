@@ -0,0 +1,15 @@
+import { createApi } from "@effectionx/context-api";
+import type { Operation } from "effection";
+
+export const calculator = createApi("test:calculator", {
+  *add(left: number, right: number): Operation<number> {
+    return left + right;
+  },
+  *divide(left: number, right: number): Operation<number> {
+    if (right === 0) {
+      throw new RangeError("division by zero");
+    }
+    return left / right;
+  },
+  pi: 3.14,
+});